@@ -0,0 +1,5 @@
+/**
+ * Separate entry point (`@acmedinotech/form-state/devtools`), so the inspector
+ * isn't bundled with the rest of the library.
+ */
+export * from './state/devtools';
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment jsdom
+ */
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import React from 'react';
+import { FHForm, FHinput } from './components';
+import { FHContextParams, makeFHContext } from './context';
+import { FHValidationError, fhRules } from './validation';
+
+describe('form/components', () => {
+	const makeCtx = (submit: jest.Mock, params: FHContextParams = {}) =>
+		makeFHContext({
+			data: { name: 'hen' },
+			validators: { name: fhRules.required() },
+			submit,
+			...params,
+		});
+
+	const renderForm = (
+		ctx: ReturnType<typeof makeCtx>,
+		props: Partial<React.ComponentProps<typeof FHForm>> = {}
+	) => {
+		const { container } = render(
+			<FHForm context={ctx} action="/save" method="post" {...props}>
+				<FHinput name="name" defaultValue="hen" />
+			</FHForm>
+		);
+		return container.querySelector('form') as HTMLFormElement;
+	};
+
+	it('submits form data and reports success', async () => {
+		const submit = jest.fn(async () => ({ ok: true }));
+		const onSubmitSuccess = jest.fn();
+		const form = renderForm(makeCtx(submit), { onSubmitSuccess });
+		expect(form.dataset.fhstatus).toEqual('idle');
+
+		fireEvent.submit(form);
+		expect(form.dataset.fhstatus).toEqual('pending');
+		await waitFor(() => expect(form.dataset.fhstatus).toEqual('success'));
+		expect(submit).toHaveBeenCalledWith(
+			{ name: 'hen' },
+			expect.objectContaining({ action: '/save', method: 'POST' })
+		);
+		expect(onSubmitSuccess).toHaveBeenCalledWith(
+			{ ok: true },
+			expect.anything()
+		);
+	});
+
+	it('reports failed responses', async () => {
+		const submit = jest.fn(async () => ({ ok: false }));
+		const onSubmitError = jest.fn();
+		const ctx = makeCtx(submit, {
+			parseResponse: async (response) => ({ ok: response.ok }),
+		});
+		const form = renderForm(ctx, { onSubmitError });
+
+		fireEvent.submit(form);
+		await waitFor(() => expect(form.dataset.fhstatus).toEqual('error'));
+		expect(onSubmitError).toHaveBeenCalledWith(
+			{ ok: false },
+			expect.anything()
+		);
+	});
+
+	it('reports failed submissions', async () => {
+		const error = new Error('offline');
+		const submit = jest.fn(async () => {
+			throw error;
+		});
+		const onSubmitError = jest.fn();
+		const form = renderForm(makeCtx(submit), { onSubmitError });
+
+		fireEvent.submit(form);
+		await waitFor(() => expect(form.dataset.fhstatus).toEqual('error'));
+		expect(onSubmitError).toHaveBeenCalledWith(error, expect.anything());
+	});
+
+	it('blocks submission while validation fails', async () => {
+		const submit = jest.fn(async () => ({ ok: true }));
+		const onSubmitError = jest.fn();
+		const form = renderForm(makeCtx(submit), { onSubmitError });
+
+		fireEvent.change(form.querySelector('input') as HTMLInputElement, {
+			target: { value: '' },
+		});
+		fireEvent.submit(form);
+		await waitFor(() => expect(form.dataset.fhstatus).toEqual('error'));
+		expect(submit).not.toHaveBeenCalled();
+		expect(onSubmitError.mock.calls[0][0]).toBeInstanceOf(
+			FHValidationError
+		);
+	});
+});
@@ -2,25 +2,68 @@
  * Provides various convenience functions and components:
  *
  * - FHinput, FHtextarea, FHselect: 100% fully compatible with corresponding native tags.
- *   Automatically binds to `onChange` and updates underlying form data.
+ *   Automatically binds to `onChange` and updates underlying form data. With
+ *   `data-fhtype`, `value` and `defaultValue` are formatted through the type.
+ * - FHForm: a native `<form/>` that provides an `FHContext` to its children and submits
+ *   through `ctx.submit`.
+ * - FHSubForm: a partition with its own `FHContext` bound to a scope of the enclosing
+ *   form.
  */
-import React, { useContext } from 'react';
+import React, { useContext, useEffect, useState } from 'react';
+import type {
+	FHContextProps,
+	FHData,
+	SubmitHandler,
+	SubmitHandlerParams,
+} from './core';
 import {
+	DS_KEY_TYPE,
 	FHContext,
+	getDataProps,
 	getScopeAndName,
 	inputChanged,
 	selectChanged,
 	textareaChanged,
 } from './core';
+import type { FHContextParams, FHSubContextProps } from './context';
+import { makeFHContext, makeFHSubContext } from './context';
+
+/**
+ * Formats `value` and `defaultValue` of a control with a `data-fhtype` prop.
+ */
+const withFormattedValues = <
+	Props extends React.HTMLProps<HTMLElement> &
+		Partial<Record<`data-${typeof DS_KEY_TYPE}`, string>>
+>(
+	props: Props,
+	{ formatValue }: FHContextProps
+): Props => {
+	const typeName = props[`data-${DS_KEY_TYPE}`];
+	if (!typeName || props.type === 'checkbox' || props.type === 'radio') {
+		return props;
+	}
+	const format = (value: any) =>
+		value instanceof Array
+			? value.map((v) => formatValue(props.name ?? '', v, typeName))
+			: formatValue(props.name ?? '', value, typeName);
+	const formatted = { ...props };
+	if (props.value !== undefined) {
+		formatted.value = format(props.value);
+	}
+	if (props.defaultValue !== undefined) {
+		formatted.defaultValue = format(props.defaultValue);
+	}
+	return formatted;
+};
 
-export const FHinput = React.forwardRef<HTMLInputElement>(function MyInput(
-	props: React.HTMLProps<HTMLInputElement>,
-	ref
-) {
+export const FHinput = React.forwardRef<
+	HTMLInputElement,
+	React.HTMLProps<HTMLInputElement>
+>(function MyInput(props, ref) {
 	const ctx = useContext(FHContext);
 	return (
 		<input
-			{...props}
+			{...withFormattedValues(props, ctx)}
 			ref={ref}
 			onChange={(e) => {
 				inputChanged(e.currentTarget, ctx);
@@ -44,35 +87,36 @@ export const FHinput = React.forwardRef<HTMLInputElement>(function MyInput(
 	);
 });
 
-export const FHtextarea = React.forwardRef<HTMLTextAreaElement>(
-	function MyTextarea(props: React.HTMLProps<HTMLTextAreaElement>, ref) {
-		const ctx = useContext(FHContext);
-		return (
-			<textarea
-				{...props}
-				ref={ref}
-				onChange={(e) => {
-					textareaChanged(e.currentTarget, ctx);
-					props.onChange?.(e);
-				}}
-				onBlur={(e) => {
-					props.onBlur?.(e);
-					const { scope, name } = getScopeAndName(e.currentTarget);
-					ctx.blur(scope, name, e);
-				}}
-			/>
-		);
-	}
-);
+export const FHtextarea = React.forwardRef<
+	HTMLTextAreaElement,
+	React.HTMLProps<HTMLTextAreaElement>
+>(function MyTextarea(props, ref) {
+	const ctx = useContext(FHContext);
+	return (
+		<textarea
+			{...withFormattedValues(props, ctx)}
+			ref={ref}
+			onChange={(e) => {
+				textareaChanged(e.currentTarget, ctx);
+				props.onChange?.(e);
+			}}
+			onBlur={(e) => {
+				props.onBlur?.(e);
+				const { scope, name } = getScopeAndName(e.currentTarget);
+				ctx.blur(scope, name, e);
+			}}
+		/>
+	);
+});
 
-export const FHselect = React.forwardRef<HTMLSelectElement>(function MySelect(
-	props: React.HTMLProps<HTMLSelectElement>,
-	ref
-) {
+export const FHselect = React.forwardRef<
+	HTMLSelectElement,
+	React.HTMLProps<HTMLSelectElement>
+>(function MySelect(props, ref) {
 	const ctx = useContext(FHContext);
 	return (
 		<select
-			{...props}
+			{...withFormattedValues(props, ctx)}
 			ref={ref}
 			onChange={(e) => {
 				selectChanged(e.currentTarget, ctx);
@@ -86,3 +130,177 @@ export const FHselect = React.forwardRef<HTMLSelectElement>(function MySelect(
 		/>
 	);
 });
+
+export type FHFormStatus = 'idle' | 'pending' | 'success' | 'error';
+
+export type FHFormState = {
+	status: FHFormStatus;
+	/** The last successful response. */
+	response?: any;
+	/** The last submission error (a thrown error or a non-ok `Response`). */
+	error?: any;
+};
+
+export type FHFormProps = Omit<
+	React.HTMLProps<HTMLFormElement>,
+	'children' | 'data' | 'onSubmit'
+> & {
+	/** Use an existing context instead of creating one. */
+	context?: FHContextProps;
+	/** Current data of created context. Ignored if `context` is given. */
+	data?: FHData;
+	/** Initial data of created context. Ignored if `context` is given. */
+	initialData?: FHData;
+	/** Submit handler of created context. Ignored if `context` is given. */
+	submit?: SubmitHandler;
+	/** Extra headers passed to the submit handler. */
+	headers?: Record<string, string>;
+	/** Submits even if the form has validation errors. */
+	ignoreErrors?: boolean;
+	/** Reports upload progress of submissions (see `SubmitHandlerParams`). */
+	onUploadProgress?: SubmitHandlerParams['onUploadProgress'];
+	/**
+	 * Called before submission. Calling `evt.preventDefault()` here cancels the
+	 * submission through `ctx.submit`.
+	 */
+	onSubmit?: (
+		evt: React.FormEvent<HTMLFormElement>,
+		ctx: FHContextProps
+	) => void;
+	onSubmitSuccess?: (response: any, ctx: FHContextProps) => void;
+	onSubmitError?: (error: any, ctx: FHContextProps) => void;
+	children?:
+		| React.ReactNode
+		| ((state: FHFormState, ctx: FHContextProps) => React.ReactNode);
+};
+
+/**
+ * Wraps `<form/>` with an `FHContext` provider. Native submission is intercepted
+ * and routed to `ctx.submit` with `action`, `method` and `encType` taken from
+ * the form's props. The result goes through `ctx.handleSubmitResponse()`; a
+ * failed response (e.g. not `ok`) is treated as an error, as are validation
+ * errors (`FHValidationError`) unless `ignoreErrors` is set.
+ *
+ * Pass a function as `children` to render based on submission state.
+ */
+export const FHForm = React.forwardRef<HTMLFormElement, FHFormProps>(
+	function MyForm(
+		{
+			context,
+			data,
+			initialData,
+			submit,
+			headers,
+			ignoreErrors,
+			onUploadProgress,
+			onSubmit,
+			onSubmitSuccess,
+			onSubmitError,
+			children,
+			...props
+		},
+		ref
+	) {
+		const [ownCtx] = useState(() =>
+			context ? undefined : makeFHContext({ data, initialData, submit })
+		);
+		const ctx = (context ?? ownCtx) as FHContextProps;
+		const [state, setState] = useState<FHFormState>({ status: 'idle' });
+
+		const handleSubmit = async (evt: React.FormEvent<HTMLFormElement>) => {
+			onSubmit?.(evt, ctx);
+			if (evt.defaultPrevented) {
+				return;
+			}
+			evt.preventDefault();
+
+			const params: SubmitHandlerParams = {
+				action: props.action,
+				method: props.method?.toUpperCase(),
+				encType: props.encType,
+				headers,
+				onUploadProgress,
+				ignoreErrors,
+			};
+			setState({ status: 'pending' });
+			try {
+				const { response, result } = await ctx.send('.', params);
+				if (!result.ok) {
+					throw response;
+				}
+				setState({ status: 'success', response });
+				onSubmitSuccess?.(response, ctx);
+			} catch (error) {
+				setState({ status: 'error', error });
+				onSubmitError?.(error, ctx);
+			}
+		};
+
+		return (
+			<FHContext.Provider value={ctx}>
+				<form
+					{...props}
+					ref={ref}
+					data-fhstatus={state.status}
+					onSubmit={handleSubmit}
+				>
+					{typeof children === 'function'
+						? children(state, ctx)
+						: children}
+				</form>
+			</FHContext.Provider>
+		);
+	}
+);
+
+export type FHSubFormProps = Omit<
+	React.HTMLProps<HTMLDivElement>,
+	'children' | 'data'
+> & {
+	/** Scope of the enclosing (or given) context edited by the sub-form. */
+	scope: string;
+	/** Parent context. Defaults to the enclosing `FHContext`. */
+	context?: FHContextProps;
+	validators?: FHContextParams['validators'];
+	/** Defaults to the parent's submit handler. */
+	submit?: SubmitHandler;
+	/** Commits the sub-form's data to the parent after successful submissions. */
+	propagate?: boolean;
+	children?: React.ReactNode | ((ctx: FHSubContextProps) => React.ReactNode);
+};
+
+/**
+ * Renders a partition (`data-fhpartition`) providing a sub-form context (see
+ * `makeFHSubContext()`), so controls inside it are scoped to the sub-form's data.
+ * Since forms can't be nested, submit through the context (e.g.
+ * `ctx.update()`) and call `ctx.commit()` to apply changes to the parent.
+ */
+export const FHSubForm = React.forwardRef<HTMLDivElement, FHSubFormProps>(
+	function MySubForm(
+		{ scope, context, validators, submit, propagate, children, ...props },
+		ref
+	) {
+		const enclosing = useContext(FHContext);
+		const [ctx] = useState(() =>
+			makeFHSubContext(context ?? enclosing, scope, {
+				validators,
+				submit,
+				propagate,
+				detached: true,
+			})
+		);
+		useEffect(() => ctx.bindToParent(), [ctx]);
+
+		return (
+			<FHContext.Provider value={ctx}>
+				<div
+					{...props}
+					{...getDataProps({ partition: true })}
+					ref={ref}
+				>
+					{typeof children === 'function' ? children(ctx) : children}
+				</div>
+			</FHContext.Provider>
+		);
+	}
+);
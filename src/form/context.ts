@@ -1,12 +1,34 @@
-import { makeEventBus, sortString } from '../utils';
-import type { DiffResults, FHContextProps } from './core';
+import { deepEqual, makeEventBus, sortString } from '../utils';
+import type {
+	DiffResults,
+	FHContextProps,
+	SubmitHandlerParams,
+	ValidationResultMap,
+} from './core';
 import {
 	computeDiff,
 	defaultSubmitHandler,
+	ENCTYPE_JSON_PATCH,
+	ENCTYPE_MERGE_PATCH,
 	getDataByPath,
 	joinScopes,
 	jsonClone,
+	peekDataByPath,
+	getPatchPaths,
+	setDataByPath,
+	toJsonPatch,
+	toMergePatch,
 } from './core';
+import type { FieldConditionState } from './dynamic';
+import { makeDynamicFields } from './dynamic';
+import type { PersistOptions } from '../persistence';
+import { makePersister, mergeData } from '../persistence';
+import type { SubmitResponseParser } from './responses';
+import { defaultResponseParser } from './responses';
+import type { ValidationSchema } from './validation';
+import { FHValidationError, makeValidationEngine } from './validation';
+import type { FHValueType, FHValueTypeRef } from './values';
+import { makeValueTypeRegistry } from './values';
 
 export const makeScopeCollector = () => {
 	const qScopes: Record<string, boolean> = {};
@@ -26,7 +48,8 @@ export const makeScopeCollector = () => {
 				if (name) {
 					qScopes[parts.join('/') + '/*'] = true;
 				}
-			} else if (s.match(/\[.*\]$/)) {
+			}
+			if (s.match(/\[.*\]$/)) {
 				const arrParent = s.replace(/\[.*\]$/, '') + '/*';
 				qScopes[arrParent] = true;
 			}
@@ -48,17 +71,282 @@ export const makeScopeCollector = () => {
 	};
 };
 
-export const makeFHContext = (
-	p: Partial<FHContextProps> & {
-		onBlur?: React.FocusEventHandler<HTMLElement>;
-	} = {}
-): FHContextProps => {
-	const data: any = jsonClone(p.data ?? {});
-	const initialData = jsonClone(p.initialData ?? data);
+/**
+ * Removes `paths` from `data` in place. Array entries are spliced out, highest
+ * index first; missing paths are skipped.
+ */
+const omitPaths = (data: any, paths: string[]) => {
+	const parse = (path: string): [string, number] => {
+		const m = path.match(/^(.*)\[(\d+)\]$/);
+		return m ? [m[1], parseInt(m[2])] : [path, -1];
+	};
+	const sorted = [...paths].sort((a, b) => {
+		const [pa, ia] = parse(a);
+		const [pb, ib] = parse(b);
+		return sortString(pa, pb) || ib - ia;
+	});
+	for (const path of sorted) {
+		const [array, index] = parse(path);
+		const arr = index >= 0 ? peekDataByPath(data, array) : undefined;
+		if (arr instanceof Array) {
+			arr.splice(index, 1);
+		} else if (peekDataByPath(data, path) !== undefined) {
+			// `setDataByPath()` would create missing parent scopes
+			setDataByPath(data, path, undefined);
+		}
+	}
+	return data;
+};
+
+export type FHContextParams = Partial<FHContextProps> & {
+	onBlur?: React.FocusEventHandler<HTMLElement>;
+	validators?: ValidationSchema;
+	/**
+	 * Value types per path (same wildcards as `validators`), applied to values
+	 * of standard controls without `data-fhtype`.
+	 */
+	valueTypes?: Record<string, FHValueTypeRef>;
+	/** Named types usable in `data-fhtype` and `valueTypes`. */
+	customValueTypes?: Record<string, FHValueType>;
+	history?: {
+		/** Max number of undo entries. Defaults to 100. */
+		limit?: number;
+		/**
+		 * Changes to the same field(s) within this many ms of each other are
+		 * merged into one undo entry. Defaults to 500.
+		 */
+		coalesceMs?: number;
+	};
+	/**
+	 * Rehydrates `data` and `initialData` from storage (emitting `reset` in a
+	 * microtask, once listeners could be added) and writes them back after each
+	 * change. `include`/`exclude` paths are relative to form data.
+	 */
+	persist?: PersistOptions;
+	/** Interprets submit results. Defaults to `defaultResponseParser`. */
+	parseResponse?: SubmitResponseParser;
+	/**
+	 * Applies the data of successful responses to `initialData` and `data` of
+	 * the submitted scope.
+	 */
+	applyResponseData?: boolean;
+};
+
+export const makeFHContext = (p: FHContextParams = {}): FHContextProps => {
+	const persister = p.persist
+		? makePersister({
+				...p.persist,
+				include: p.persist.include?.flatMap((path) => [
+					joinScopes('data', path),
+					joinScopes('initialData', path),
+				]),
+				exclude: p.persist.exclude?.flatMap((path) => [
+					joinScopes('data', path),
+					joinScopes('initialData', path),
+				]),
+		  })
+		: undefined;
+	const saved = persister?.load();
+	const baseData = jsonClone(p.data ?? {});
+	const data: any = mergeData(baseData, saved?.data);
+	const initialData = mergeData(
+		jsonClone(p.initialData ?? baseData),
+		saved?.initialData
+	);
 	const ref = { data, initialData, changelog: [] as DiffResults[] };
 	const events: FHContextProps['events'] = makeEventBus();
+	if (persister) {
+		const save = () =>
+			persister.save({ data: ref.data, initialData: ref.initialData });
+		events.addListener('updated', save);
+		events.addListener('reset', save);
+		events.addListener('set-initial', save);
+	}
 	const scopedUpdateBus = makeEventBus();
 	const scopedBlurBus = makeEventBus();
+	const scopedDirtyBus = makeEventBus();
+	/** Paths of fields blurred since the last reset. */
+	let touched: Record<string, boolean> = {};
+	const dynamic = makeDynamicFields();
+	const validation = makeValidationEngine(p.validators, {
+		onAsyncChange: (path) => emitValidated(undefined, path),
+		isSkipped: (path, data) => !dynamic.isVisible(path, data),
+	});
+	/** Set while computed values are written; those writes aren't undoable. */
+	let computing = 0;
+	const valueTypes = makeValueTypeRegistry(p.valueTypes, p.customValueTypes);
+	const history = {
+		limit: p.history?.limit ?? 100,
+		coalesceMs: p.history?.coalesceMs ?? 500,
+		past: [] as DiffResults[],
+		future: [] as DiffResults[],
+		lastRecorded: 0,
+		/** Set while undo/redo applies a diff so it isn't recorded again. */
+		replaying: false,
+	};
+
+	const recordHistory = (diff: DiffResults) => {
+		if (history.replaying || computing > 0) {
+			return;
+		}
+
+		const now = Date.now();
+		// `jsonClone` would turn `undefined` (added/removed values) into `null`
+		const cloneVal = (v: any) => (v === undefined ? v : jsonClone(v));
+		const entry: DiffResults = { hasDiff: true, diffs: {} };
+		for (const [path, [oval, nval]] of Object.entries(diff.diffs)) {
+			entry.diffs[path] = [cloneVal(oval), cloneVal(nval)];
+		}
+		const last = history.past[history.past.length - 1];
+		const paths = Object.keys(entry.diffs).sort().join('|');
+		if (
+			last &&
+			now - history.lastRecorded < history.coalesceMs &&
+			Object.keys(last.diffs).sort().join('|') === paths
+		) {
+			for (const [path, [, nval]] of Object.entries(entry.diffs)) {
+				last.diffs[path] = [last.diffs[path][0], nval];
+			}
+		} else {
+			history.past.push(entry);
+			if (history.past.length > history.limit) {
+				history.past.shift();
+			}
+		}
+		history.future = [];
+		history.lastRecorded = now;
+	};
+
+	/**
+	 * Applies the old (`useNew = false`) or new values of each diff entry.
+	 */
+	const replayDiff = (diff: DiffResults, useNew: boolean) => {
+		const odata = jsonClone(ref.data);
+		for (const [path, [oval, nval]] of Object.entries(diff.diffs)) {
+			const val = useNew ? nval : oval;
+			setDataByPath(
+				ref.data,
+				path,
+				val === undefined ? undefined : jsonClone(val)
+			);
+		}
+
+		history.replaying = true;
+		history.lastRecorded = 0;
+		try {
+			triggerUpdate(computeDiff(odata, ref.data));
+		} finally {
+			history.replaying = false;
+		}
+	};
+
+	/** Error map as of the last `validated` event. */
+	let lastErrorMap = JSON.stringify(validation.getResults().errorMap);
+	const emitValidated = (
+		diff: DiffResults = { hasDiff: false, diffs: {} },
+		scope?: string
+	) => {
+		const validationResults = validation.getResults();
+		const errorMap = JSON.stringify(validationResults.errorMap);
+		if (errorMap !== lastErrorMap) {
+			lastErrorMap = errorMap;
+			events.emit('validated', { diff, scope, validationResults });
+		}
+	};
+
+	/**
+	 * Runs `fn` against the validation engine and emits `validated` if the
+	 * error map changed.
+	 */
+	const withValidation = (
+		fn: () => ValidationResultMap,
+		diff?: DiffResults,
+		scope?: string
+	) => {
+		const results = fn();
+		emitValidated(diff, scope);
+		return results;
+	};
+
+	const isDirty: FHContextProps['isDirty'] = (scope = '.') => {
+		const path = joinScopes(...scope.split('/'));
+		return !deepEqual(
+			peekDataByPath(ref.data, path),
+			peekDataByPath(ref.initialData, path)
+		);
+	};
+
+	/** Last known dirty state of the form and each bound scope. */
+	const dirtyScopes: Record<string, { isDirty: boolean; bound: number }> = {
+		'.': { isDirty: isDirty(), bound: 1 },
+	};
+
+	/**
+	 * Notifies scopes that flipped between pristine and dirty, deepest first (like
+	 * `updated`), then the form.
+	 */
+	const checkDirty = () => {
+		const scopes = Object.keys(dirtyScopes).sort((a, b) =>
+			a === '.' ? 1 : b === '.' ? -1 : b.length - a.length
+		);
+		for (const scope of scopes) {
+			const entry = dirtyScopes[scope];
+			const dirty = isDirty(scope);
+			if (dirty !== entry.isDirty) {
+				entry.isDirty = dirty;
+				scopedDirtyBus.emit(scope, dirty, scope);
+				events.emit('dirty-changed', { scope, isDirty: dirty });
+			}
+		}
+	};
+
+	const bindToDirtyScope: FHContextProps['bindToDirtyScope'] = (
+		scope,
+		handler
+	) => {
+		const nscope = joinScopes(...scope.split('/')) || '.';
+		if (!dirtyScopes[nscope]) {
+			dirtyScopes[nscope] = { isDirty: isDirty(nscope), bound: 0 };
+		}
+		const entry = dirtyScopes[nscope];
+		entry.bound++;
+		const unbind = scopedDirtyBus.addListener(
+			nscope,
+			(_evt: string, dirty: boolean, s: string) => handler(dirty, s)
+		);
+		return () => {
+			unbind();
+			if (--entry.bound === 0) {
+				delete dirtyScopes[nscope];
+			}
+		};
+	};
+
+	const isTouched: FHContextProps['isTouched'] = (path = '.') => {
+		const npath = joinScopes(...path.split('/'));
+		return Object.keys(touched).some(
+			(p) =>
+				npath === '' ||
+				p === npath ||
+				p.startsWith(npath + '/') ||
+				p.startsWith(npath + '[')
+		);
+	};
+
+	/** Initial and current values of `scope`, if both are objects. */
+	const getScopeValues = (scope: string) => {
+		const path = joinScopes(...scope.split('/'));
+		const oval = peekDataByPath(ref.initialData, path) ?? {};
+		const nval = peekDataByPath(ref.data, path) ?? {};
+		return typeof oval === 'object' && typeof nval === 'object'
+			? { oval, nval }
+			: { oval: {}, nval: {} };
+	};
+
+	const getDirtyData: FHContextProps['getDirtyData'] = (scope = '.') => {
+		const { oval, nval } = getScopeValues(scope);
+		return toMergePatch(oval, nval);
+	};
 
 	const triggerUpdate = (diff: DiffResults) => {
 		if (!diff.hasDiff) {
@@ -67,6 +355,8 @@ export const makeFHContext = (
 
 		const clone = jsonClone(ref.data);
 		ref.changelog.push(diff);
+		recordHistory(diff);
+		withValidation(() => validation.validateDiff(diff, ref.data), diff);
 		const scopeColl = makeScopeCollector();
 		for (const [path, valDiff] of Object.entries(diff.diffs)) {
 			const parts = path.split('/');
@@ -77,6 +367,14 @@ export const makeFHContext = (
 			if (scope !== '' && scope !== '.') {
 				scopeColl.addScope(scope);
 			}
+			// array element diffs (e.g. `items[0]`) also notify the element's
+			// scope and the array's scopes (`items`, `items/*`)
+			if (name?.match(/\[\d+\]$/)) {
+				scopeColl.addScope(path);
+				scopeColl.addScope(
+					joinScopes(scope, name.replace(/\[\d+\]$/, ''))
+				);
+			}
 		}
 
 		for (const scope of scopeColl.getScopes()) {
@@ -84,6 +382,95 @@ export const makeFHContext = (
 		}
 
 		scopedUpdateBus.emit('*', diff, clone);
+		events.emit('updated', diff, clone);
+		applyComputed(Object.keys(diff.diffs));
+		checkDirty();
+		checkConditions();
+	};
+
+	/**
+	 * Writes computed values depending on `changed` paths (all if not given).
+	 * Each write triggers its own update, which updates dependent values in turn.
+	 */
+	const applyComputed = (changed?: string[]) => {
+		for (const { path, compute } of dynamic.getAffectedComputeds(changed)) {
+			const value = compute(ref.data);
+			if (deepEqual(peekDataByPath(ref.data, path), value)) {
+				continue;
+			}
+			const parts = path.split('/');
+			const name = parts.pop() as string;
+			computing++;
+			try {
+				update(name, value, parts.join('/') || '.');
+			} finally {
+				computing--;
+			}
+		}
+	};
+
+	/**
+	 * Writes computed values to `initialData` (without events), so they don't make
+	 * the form dirty until their dependencies are edited.
+	 */
+	const applyComputedToInitial = () => {
+		let changed = true;
+		while (changed) {
+			changed = false;
+			for (const { path, compute } of dynamic.getAffectedComputeds()) {
+				const value = compute(ref.initialData);
+				if (!deepEqual(peekDataByPath(ref.initialData, path), value)) {
+					setDataByPath(ref.initialData, path, value);
+					changed = true;
+				}
+			}
+		}
+	};
+
+	let conditionStates: Record<string, FieldConditionState> = {};
+
+	/**
+	 * Emits `condition-changed` for fields that flipped, and revalidates fields that
+	 * were hidden (dropping their errors) or shown.
+	 */
+	const checkConditions = () => {
+		const states = dynamic.getConditionStates(ref.data);
+		const flipped: string[] = [];
+		for (const path of Object.keys({ ...conditionStates, ...states })) {
+			const prev = conditionStates[path] ?? {
+				visible: true,
+				enabled: true,
+			};
+			const next = states[path] ?? { visible: true, enabled: true };
+			if (
+				prev.visible !== next.visible ||
+				prev.enabled !== next.enabled
+			) {
+				if (prev.visible !== next.visible) {
+					flipped.push(path);
+				}
+				events.emit('condition-changed', { path, ...next });
+			}
+		}
+		conditionStates = states;
+		if (flipped.length > 0) {
+			withValidation(() => validation.revalidate(flipped, ref.data));
+		}
+	};
+
+	/** Copy of `data` at `scope` without hidden fields. */
+	const withoutHidden = (data: any, scope: string) => {
+		const nscope = joinScopes(...scope.split('/'));
+		const value = jsonClone(peekDataByPath(data, nscope) ?? {});
+		return omitPaths(
+			value,
+			dynamic
+				.getHiddenPaths(ref.data)
+				.filter(
+					(path) => nscope === '' || path.startsWith(nscope + '/')
+				)
+				.map((path) => (nscope ? path.slice(nscope.length + 1) : path))
+		);
 	};
 
 	const bindToUpdatedScope: FHContextProps['bindToUpdatedScope'] = (
@@ -91,12 +478,13 @@ export const makeFHContext = (
 		scope = '.',
 		name
 	) => {
-		if (scope && scope !== '.') {
-			if (name) {
-				return scopedUpdateBus.addListener(`${scope}/${name}`, handler);
-			} else {
-				return scopedUpdateBus.addListener(scope, handler);
-			}
+		if (name) {
+			return scopedUpdateBus.addListener(
+				joinScopes(scope, name),
+				handler
+			);
+		} else if (scope && scope !== '.') {
+			return scopedUpdateBus.addListener(scope, handler);
 		}
 
 		return () => {};
@@ -121,7 +509,7 @@ export const makeFHContext = (
 		getDataByPath(ref.data, scope, (ptr) => {
 			ptr[name] = val;
 		});
-		triggerUpdate(computeDiff(odata, ref.data, scope));
+		triggerUpdate(computeDiff(odata, ref.data));
 	};
 
 	const updateControlValue: FHContextProps['updateControlValue'] = ({
@@ -131,22 +519,24 @@ export const makeFHContext = (
 		isArray,
 		isArrRemove,
 	}) => {
-		const odata = jsonClone(data);
+		const odata = jsonClone(ref.data);
 		if (value === undefined) {
-			getDataByPath(data, scope, (ptr) => {
+			getDataByPath(ref.data, scope, (ptr) => {
 				delete ptr[name];
 			});
-			triggerUpdate(computeDiff(odata, data, scope));
+			triggerUpdate(computeDiff(odata, ref.data));
 			return;
 		}
 
-		getDataByPath(data, scope, (ptr) => {
+		getDataByPath(ref.data, scope, (ptr) => {
 			if (isArray) {
 				if (!ptr[name]) {
 					ptr[name] = [];
 				}
 				if (isArrRemove) {
-					ptr[name] = ptr[name].filter((v: string) => v !== value);
+					ptr[name] = ptr[name].filter(
+						(v: any) => !deepEqual(v, value)
+					);
 				} else {
 					ptr[name].push(value);
 				}
@@ -155,7 +545,108 @@ export const makeFHContext = (
 			}
 		});
 
-		triggerUpdate(computeDiff(odata, data));
+		triggerUpdate(computeDiff(odata, ref.data));
+	};
+
+	const arrayKeys: Record<string, string[]> = {};
+	let arrayKeySeq = 0;
+
+	const arrayOps: FHContextProps['arrayOps'] = (scope) => {
+		const path = joinScopes(...scope.split('/'));
+		const parts = path.split('/');
+		const name = parts.pop() as string;
+		const parentScope = parts.join('/') || '.';
+
+		const getItems = () => {
+			const arr = peekDataByPath(ref.data, path);
+			return arr instanceof Array ? arr : [];
+		};
+
+		// keys are padded/truncated if the array was changed outside of arrayOps
+		const getKeys = () => {
+			const keys = (arrayKeys[path] ?? []).slice(0, getItems().length);
+			while (keys.length < getItems().length) {
+				keys.push(`fh-${++arrayKeySeq}`);
+			}
+			arrayKeys[path] = keys;
+			return keys;
+		};
+
+		const apply = (fn: (items: any[], keys: string[]) => void) => {
+			const odata = jsonClone(ref.data);
+			const keys = [...getKeys()];
+			const items = jsonClone<any[]>(getItems());
+			fn(items, keys);
+			getDataByPath(ref.data, parentScope, (ptr) => {
+				ptr[name] = items;
+			});
+			arrayKeys[path] = keys;
+			triggerUpdate(computeDiff(odata, ref.data));
+		};
+
+		const newKeys = (count: number) =>
+			Array.from({ length: count }, () => `fh-${++arrayKeySeq}`);
+
+		return {
+			items: () => [...getItems()],
+			keys: () => [...getKeys()],
+			append: (...added) =>
+				apply((items, keys) => {
+					items.push(...jsonClone<any[]>(added));
+					keys.push(...newKeys(added.length));
+				}),
+			insert: (index, ...added) =>
+				apply((items, keys) => {
+					items.splice(index, 0, ...jsonClone<any[]>(added));
+					keys.splice(index, 0, ...newKeys(added.length));
+				}),
+			remove: (index) =>
+				apply((items, keys) => {
+					items.splice(index, 1);
+					keys.splice(index, 1);
+				}),
+			duplicate: (index) =>
+				apply((items, keys) => {
+					if (index < 0 || index >= items.length) {
+						return;
+					}
+					items.splice(index + 1, 0, jsonClone(items[index]));
+					keys.splice(index + 1, 0, ...newKeys(1));
+				}),
+			move: (from, to) =>
+				apply((items, keys) => {
+					if (from < 0 || from >= items.length) {
+						return;
+					}
+					items.splice(to, 0, ...items.splice(from, 1));
+					keys.splice(to, 0, ...keys.splice(from, 1));
+				}),
+			swap: (indexA, indexB) =>
+				apply((items, keys) => {
+					if (
+						indexA < 0 ||
+						indexB < 0 ||
+						indexA >= items.length ||
+						indexB >= items.length
+					) {
+						return;
+					}
+					[items[indexA], items[indexB]] = [
+						items[indexB],
+						items[indexA],
+					];
+					[keys[indexA], keys[indexB]] = [keys[indexB], keys[indexA]];
+				}),
+			replace: (replaced) =>
+				apply((items, keys) => {
+					items.splice(
+						0,
+						items.length,
+						...jsonClone<any[]>(replaced)
+					);
+					keys.splice(0, keys.length, ...newKeys(replaced.length));
+				}),
+		};
 	};
 
 	const getScopedData: FHContextProps['getScopedData'] = (scope) =>
@@ -163,6 +654,163 @@ export const makeFHContext = (
 
 	const submit = p.submit ?? defaultSubmitHandler;
 
+	const validate: FHContextProps['validate'] = (scope = '.') =>
+		withValidation(
+			() => validation.validate(ref.data, scope),
+			undefined,
+			scope
+		);
+
+	const validateAsync: FHContextProps['validateAsync'] = async (
+		scope = '.'
+	) => {
+		validate(scope);
+		return validation.settled(scope);
+	};
+
+	const setServerErrors: FHContextProps['setServerErrors'] = (
+		errors,
+		scope = '.'
+	) =>
+		withValidation(
+			() => validation.setServerErrors(errors, scope),
+			undefined,
+			scope
+		);
+
+	const parseResponse = p.parseResponse ?? defaultResponseParser;
+
+	/**
+	 * `handleSubmitResponse()`, with `onSuccess` called before response data is
+	 * applied and `submit-success` is emitted.
+	 */
+	const processResponse = async (
+		pending: Parameters<FHContextProps['handleSubmitResponse']>[0],
+		scope: string,
+		onSuccess?: () => void
+	) => {
+		let response: any;
+		try {
+			response = await pending;
+		} catch (error) {
+			events.emit('submit-error', { scope, error });
+			throw error;
+		}
+
+		const result = await parseResponse(response);
+		if (result.ok) {
+			onSuccess?.();
+			if (
+				p.applyResponseData &&
+				result.data &&
+				typeof result.data === 'object'
+			) {
+				ctx.setInitial(result.data, scope);
+				ctx.setData(result.data, scope);
+			}
+			events.emit('submit-success', {
+				scope,
+				response,
+				data: result.data,
+			});
+		} else {
+			setServerErrors(result.errors ?? {}, scope);
+			events.emit('submit-error', {
+				scope,
+				response,
+				errors: result.errors,
+				message: result.message,
+			});
+		}
+		return result;
+	};
+
+	const handleSubmitResponse: FHContextProps['handleSubmitResponse'] = (
+		pending,
+		scope = '.'
+	) => processResponse(pending, scope);
+
+	const validatedSubmit = async (
+		scope: string,
+		{ ignoreErrors, ...params }: SubmitHandlerParams,
+		prepare: () => { body: any; onSuccess?: () => void } = () => ({
+			body: withoutHidden(ref.data, scope),
+		})
+	) => {
+		setServerErrors({}, scope);
+		if (!ignoreErrors) {
+			const results = await validateAsync(scope);
+			if (results.errors) {
+				throw new FHValidationError(results);
+			}
+		}
+		const { body, onSuccess } = prepare();
+		const pending = submit(body, params);
+		const result = await processResponse(pending, scope, onSuccess);
+		return { response: await pending, result };
+	};
+
+	/**
+	 * Replaces `initialData` at `scope` through `fn`. Emits `set-initial`.
+	 */
+	const updateInitial = (scope: string, fn: (ptr: any) => void) => {
+		getDataByPath(ref.initialData, scope, (ptr) => {
+			const optr = jsonClone(ptr);
+			fn(ptr);
+			const diff = computeDiff(optr, ptr, scope);
+			events.emit('set-initial', { diff, scope });
+		});
+		checkDirty();
+	};
+
+	const patch: FHContextProps['patch'] = async (scope = '.', params = {}) => {
+		const encType = params.encType ?? ENCTYPE_MERGE_PATCH;
+		const { response } = await validatedSubmit(
+			scope,
+			{ method: 'PATCH', ...params, encType },
+			() => {
+				const oval = withoutHidden(ref.initialData, scope);
+				const sent = withoutHidden(ref.data, scope);
+				return {
+					body:
+						encType === ENCTYPE_JSON_PATCH
+							? toJsonPatch(oval, sent)
+							: toMergePatch(oval, sent),
+					// later edits stay dirty
+					onSuccess: () =>
+						updateInitial(scope, (ptr) => {
+							for (const path of getPatchPaths(oval, sent)) {
+								setDataByPath(
+									ptr,
+									path,
+									peekDataByPath(sent, path)
+								);
+							}
+						}),
+				};
+			}
+		);
+		return response;
+	};
+
+	// blur emits the control's full path first, followed by its ancestor scopes
+	scopedBlurBus.addListener(
+		'*',
+		(scope: string, _evt: any, path?: string) => {
+			if (scope === path) {
+				if (!touched[path]) {
+					touched[path] = true;
+					events.emit('touched', { path });
+				}
+				withValidation(
+					() => validation.validateBlur(path, ref.data),
+					undefined,
+					path
+				);
+			}
+		}
+	);
+
 	const blur: FHContextProps['blur'] = (
 		scope,
 		nameOrEvt,
@@ -198,7 +846,12 @@ export const makeFHContext = (
 		}
 	};
 
-	return {
+	if (saved !== undefined) {
+		// deferred, so listeners added right after creation receive it
+		queueMicrotask(() => events.emit('reset', jsonClone(ref.data)));
+	}
+
+	const ctx: FHContextProps = {
 		data,
 		getChangelog: () => [...ref.changelog],
 		clearChangelog: () => {
@@ -206,6 +859,23 @@ export const makeFHContext = (
 			ref.changelog = [];
 			return old;
 		},
+		undo: () => {
+			const entry = history.past.pop();
+			if (entry) {
+				history.future.push(entry);
+				replayDiff(entry, false);
+			}
+		},
+		redo: () => {
+			const entry = history.future.pop();
+			if (entry) {
+				history.past.push(entry);
+				replayDiff(entry, true);
+			}
+		},
+		canUndo: () => history.past.length > 0,
+		canRedo: () => history.future.length > 0,
+		clearPersisted: () => persister?.clear(),
 		getData: () => ({ ...ref.data }),
 		getInitial: () => ({ ...ref.initialData }),
 		getScopedData,
@@ -217,43 +887,242 @@ export const makeFHContext = (
 				triggerUpdate(diff);
 			});
 		},
-		setInitial: (newData, scope = '.') => {
-			getDataByPath(ref.initialData, scope, (ptr) => {
-				const optr = jsonClone(ptr);
-				const diff = computeDiff(optr, ptr, scope);
-				events.emit('set-initial', { diff, scope });
-			});
-		},
+		setInitial: (newData, scope = '.') =>
+			updateInitial(scope, (ptr) =>
+				Object.assign(ptr, jsonClone(newData))
+			),
 		initialData,
 		events,
 		blur,
 		bindToBlurredScope,
 		bindToUpdatedScope,
 		reset: () => {
+			applyComputedToInitial();
 			ref.data = jsonClone(ref.initialData);
+			history.past = [];
+			history.future = [];
+			touched = {};
+			withValidation(() => {
+				validation.clear();
+				return validation.getResults();
+			});
 			events.emit('reset', jsonClone(ref.data));
+			applyComputed();
+			checkDirty();
+			checkConditions();
 		},
 		resetControl: (name, scope = '.') => {
 			getDataByPath(ref.data, scope, (ptr) => {
 				const odata = jsonClone(ref.data);
 				ptr[name] = getDataByPath(ref.initialData, scope)[name];
-				triggerUpdate(computeDiff(odata, data));
+				triggerUpdate(computeDiff(odata, ref.data));
 			});
 		},
 		setControlValue: update,
+		isDirty,
+		isTouched,
+		getDirtyData,
+		bindToDirtyScope,
+		when: (path, predicate, effect) => {
+			const remove = dynamic.addCondition(path, predicate, effect);
+			checkConditions();
+			return () => {
+				remove();
+				checkConditions();
+			};
+		},
+		isVisible: (path) => dynamic.isVisible(path, ref.data),
+		isEnabled: (path) => dynamic.isEnabled(path, ref.data),
+		computed: (path, deps, fn) => {
+			const remove = dynamic.addComputed(path, deps, fn);
+			applyComputedToInitial();
+			applyComputed();
+			return remove;
+		},
+		getSubmitData: (scope = '.') => withoutHidden(ref.data, scope),
+		arrayOps,
 		updateControlValue,
+		addValueType: (path, type) => valueTypes.add(path, type),
+		parseValue: (path, raw, typeName) =>
+			valueTypes.parse(path, raw, typeName),
+		formatValue: (path, value, typeName) =>
+			valueTypes.format(path, value, typeName),
+		addValidator: (path, rule) => validation.addRule(path, rule),
+		validate,
+		validateAsync,
+		setServerErrors,
+		handleSubmitResponse,
+		getValidationResults: (scope) => validation.getResults(scope),
 		submit,
+		send: (scope = '.', params = {}) => validatedSubmit(scope, params),
 		create: async (scope = '.', params = {}) => {
-			return submit(getScopedData(scope), { method: 'POST', ...params });
+			const { response } = await validatedSubmit(scope, {
+				method: 'POST',
+				...params,
+			});
+			return response;
 		},
 		update: async (scope = '.', params = {}) => {
-			return submit(getScopedData(scope), { method: 'PUT', ...params });
+			const { response } = await validatedSubmit(scope, {
+				method: 'PUT',
+				...params,
+			});
+			return response;
 		},
 		delete: async (scope = '.', params = {}) => {
-			return submit(getScopedData(scope), {
+			const { response } = await validatedSubmit(scope, {
 				method: 'DELETE',
 				...params,
 			});
+			return response;
 		},
+		patch,
+	};
+	return ctx;
+};
+
+export type FHSubContextProps<Data = any> = FHContextProps<Data> & {
+	parent: FHContextProps;
+	/** Scope of the parent bound to this context. */
+	parentScope: string;
+	/**
+	 * Writes this context's changes (since it last took parent data or committed)
+	 * to the parent's scope, emitting `updated` on the parent. The resulting
+	 * parent data becomes this context's data and initial data.
+	 */
+	commit: () => void;
+	/**
+	 * Follows changes, resets and new initial data of the parent at `parentScope`
+	 * while this context has no uncommitted edits. Called on creation unless
+	 * `detached` is set.
+	 * @returns Function to stop following the parent.
+	 */
+	bindToParent: () => () => void;
+};
+
+/**
+ * Creates a context for a sub-form editing `scope` of `parent`. It starts from
+ * the parent's data and initial data at `scope`, and validates, resets and
+ * submits (through the parent's submit handler, unless `submit` is given)
+ * independently. Changes only reach the parent on `commit()`, or after each
+ * successful submission with `propagate`; see `bindToParent()` for the other
+ * direction.
+ */
+export const makeFHSubContext = (
+	parent: FHContextProps,
+	scope: string,
+	{
+		propagate = false,
+		detached = false,
+		...p
+	}: Omit<FHContextParams, 'data' | 'initialData'> & {
+		propagate?: boolean;
+		/** Don't follow the parent until `bindToParent()` is called. */
+		detached?: boolean;
+	} = {}
+): FHSubContextProps => {
+	const parentScope = joinScopes(...scope.split('/'));
+	const ctx = makeFHContext({
+		...p,
+		submit: p.submit ?? parent.submit,
+		data: peekDataByPath(parent.getData(), parentScope) ?? {},
+		initialData: peekDataByPath(parent.getInitial(), parentScope) ?? {},
+	});
+
+	/** Keys of `target` missing from `data`. */
+	const removedKeys = (target: any, data: any) =>
+		Object.keys(target ?? {}).filter((key) => !(key in data));
+
+	/** Parent data at `parentScope` as last taken or committed. */
+	let synced = jsonClone(ctx.getData());
+
+	let following = false;
+	/** @param force Follow even if there are edits (e.g. they were just reset). */
+	const follow = (force = false) => {
+		if (following || (!force && !deepEqual(ctx.getData(), synced))) {
+			return;
+		}
+		following = true;
+		try {
+			takeParentData();
+		} finally {
+			following = false;
+		}
 	};
+
+	const takeParentData = () => {
+		const initial = jsonClone(
+			peekDataByPath(parent.getInitial(), parentScope) ?? {}
+		);
+		const data = jsonClone(
+			peekDataByPath(parent.getData(), parentScope) ?? {}
+		);
+		synced = jsonClone(data);
+		if (!deepEqual(ctx.initialData, initial)) {
+			for (const key of removedKeys(ctx.initialData, initial)) {
+				delete ctx.initialData[key];
+			}
+			Object.assign(ctx.initialData, initial);
+			ctx.reset();
+		}
+		replaceData(data);
+	};
+
+	/** Replaces this context's data (`setData()` merges). */
+	const replaceData = (data: any) => {
+		const removed = removedKeys(ctx.getData(), data);
+		ctx.setData(data);
+		for (const name of removed) {
+			ctx.updateControlValue({ scope: '', name });
+		}
+	};
+
+	const bindToParent = () => {
+		follow();
+		const unbind = [
+			parent.events.addListener('updated', () => follow()),
+			parent.events.addListener('reset', () => follow()),
+			parent.events.addListener('set-initial', () => follow()),
+			// catch up on changes skipped while this context had edits
+			ctx.events.addListener('reset', () => follow(true)),
+		];
+		return () => unbind.forEach((fn) => fn());
+	};
+
+	const commit = () => {
+		const data = jsonClone(ctx.getData());
+		const current = jsonClone(
+			peekDataByPath(parent.getData(), parentScope) ?? {}
+		);
+		// only this context's own changes, so newer parent values are kept
+		const merged = jsonClone(current);
+		for (const path of getPatchPaths(synced, data)) {
+			const value = peekDataByPath(data, path);
+			setDataByPath(
+				merged,
+				path,
+				value === undefined ? undefined : jsonClone(value)
+			);
+		}
+		// `setData()` merges, so removed keys are deleted separately
+		parent.setData(merged, parentScope);
+		for (const name of removedKeys(current, merged)) {
+			parent.updateControlValue({ scope: parentScope, name });
+		}
+		synced = jsonClone(merged);
+		for (const key of removedKeys(ctx.initialData, merged)) {
+			delete ctx.initialData[key];
+		}
+		ctx.setInitial(merged);
+		replaceData(merged);
+	};
+
+	if (propagate) {
+		ctx.events.addListener('submit-success', commit);
+	}
+	if (!detached) {
+		bindToParent();
+	}
+
+	return { ...ctx, parent, parentScope, commit, bindToParent };
 };
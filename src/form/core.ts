@@ -1,8 +1,40 @@
 import { createContext } from 'react';
 import type { EventBus } from '../utils';
+import { isBlob, sortString } from '../utils';
+import type { ParsedSubmitResponse } from './responses';
+import type {
+	ComputedFn,
+	FieldCondition,
+	FieldConditionEffect,
+	FieldConditionState,
+} from './dynamic';
+import type { AnyFieldRule } from './validation';
+import type { FHValueTypeRef } from './values';
 
-export const jsonClone = <Type = any>(obj: any): Type =>
-	JSON.parse(JSON.stringify(obj));
+const BLOB_REF = '__fhBlobRef';
+
+/**
+ * Deep-copies data with the semantics of a `JSON` round trip (e.g. `undefined`
+ * object values are dropped and dates become strings), except that `File`s and
+ * other `Blob`s are kept by reference since they can't be serialized. Any other
+ * non-JSON value (class instances, functions) doesn't survive cloning, so keep
+ * them out of form and store data.
+ */
+export const jsonClone = <Type = any>(obj: any): Type => {
+	const blobs: Blob[] = [];
+	const json = JSON.stringify(obj, (key, value) =>
+		isBlob(value) ? { [BLOB_REF]: blobs.push(value) - 1 } : value
+	);
+	return JSON.parse(
+		json,
+		blobs.length > 0
+			? (key, value) =>
+					value && typeof value === 'object' && BLOB_REF in value
+						? blobs[value[BLOB_REF]]
+						: value
+			: undefined
+	);
+};
 
 export type ScopeProps = {
 	/** The enclosing scope of the component. Use this to propagate scopes down the tree. */
@@ -17,6 +49,8 @@ export const DS_KEY_SCOPE = 'fhscope';
 export const DS_KEY_BOOL = 'fhbool';
 export const DS_KEY_VAL_UNCHECKED = 'fhvalunchecked';
 export const DS_KEY_PARTITION = 'fhpartition';
+export const DS_KEY_FILE_META = 'fhfilemeta';
+export const DS_KEY_TYPE = 'fhtype';
 
 /**
  * Returns `data-` props corresponding to given flag values.
@@ -28,31 +62,73 @@ export const getDataProps = ({
 	bool,
 	valUnchecked,
 	partition,
+	fileMeta,
+	type,
 }: {
 	scope?: string;
 	bool?: boolean;
 	valUnchecked?: string;
 	partition?: boolean;
+	/** File inputs: store `FHFileMeta` instead of `File` objects. */
+	fileMeta?: boolean;
+	/** Value type name (e.g. `number`), see `fhValueTypes`. */
+	type?: string;
 }) => {
 	return {
 		'data-fhscope': scope,
 		'data-fhbool': bool ? '' : undefined,
 		'data-fhvalunchecked': valUnchecked,
 		'data-fhpartition': partition,
+		'data-fhfilemeta': fileMeta ? '' : undefined,
+		'data-fhtype': type,
 	};
 };
 
 export type FHData<Type = any> = Type;
 
-export const ENCTYPE_MULTIPART = 'multi-part/form-data';
+/**
+ * A value stored by a value type (see `parseValue()`), e.g. a number, an ISO date
+ * string or a JSON value.
+ */
+export type FHTypedValue =
+	| string
+	| number
+	| boolean
+	| null
+	| FHTypedValue[]
+	| { [key: string]: FHTypedValue };
+
+export const ENCTYPE_MULTIPART = 'multipart/form-data';
 export const ENCTYPE_URLENCODED = 'application/x-www-form-urlencoded';
 export const ENCTYPE_JSON = 'application/json';
+/** RFC 6902: the body is a list of operations (see `toJsonPatch()`). */
+export const ENCTYPE_JSON_PATCH = 'application/json-patch+json';
+/** RFC 7396: the body holds only changed values (see `toMergePatch()`). */
+export const ENCTYPE_MERGE_PATCH = 'application/merge-patch+json';
 
 export type SubmitHandlerParams = {
 	action?: string;
 	method?: string;
 	encType?: string;
 	headers?: Record<string, string>;
+	/**
+	 * Key format of nested values for multipart and urlencoded bodies:
+	 *
+	 * - `path` (default): same as `getDataByPath`, e.g. `address/zip`,
+	 *   `items[0]/price`
+	 * - `brackets`: e.g. `address[zip]`, `items[0][price]`
+	 */
+	keyStyle?: 'path' | 'brackets';
+	/**
+	 * Reports upload progress. If given, `defaultSubmitHandler` uses
+	 * `XMLHttpRequest` instead of `fetch`.
+	 */
+	onUploadProgress?: (progress: { loaded: number; total?: number }) => void;
+	/**
+	 * Used by `create`/`update`/`delete`/`patch`: submits even if the scope has validation
+	 * errors. Not passed on to the submit handler.
+	 */
+	ignoreErrors?: boolean;
 };
 
 export type SubmitHandler = (
@@ -60,44 +136,152 @@ export type SubmitHandler = (
 	params?: SubmitHandlerParams
 ) => Promise<Response>;
 
+/**
+ * Flattens `data` into `target`. Arrays of scalars (and files) repeat their key,
+ * like `<select multiple/>`; other arrays and objects get nested keys (see
+ * `SubmitHandlerParams.keyStyle`). `File`/`Blob` values are appended as is
+ * (skipped for `URLSearchParams`), dates as ISO strings, and `undefined` values
+ * are skipped.
+ */
+export const serializeFormData = <Target extends FormData | URLSearchParams>(
+	data: FHData,
+	target: Target,
+	keyStyle: SubmitHandlerParams['keyStyle'] = 'path'
+): Target => {
+	const childKey = (key: string, child: string | number) =>
+		typeof child === 'number'
+			? `${key}[${child}]`
+			: keyStyle === 'brackets'
+			? `${key}[${child}]`
+			: `${key}/${child}`;
+
+	const append = (key: string, value: any) => {
+		if (value === undefined) {
+			return;
+		} else if (isBlob(value)) {
+			if (target instanceof FormData) {
+				target.append(key, value);
+			}
+		} else if (value instanceof Date) {
+			target.append(key, value.toISOString());
+		} else if (value instanceof Array) {
+			const scalars = value.every(
+				(v) => !v || typeof v !== 'object' || isBlob(v)
+			);
+			value.forEach((v, i) =>
+				append(scalars ? key : childKey(key, i), v)
+			);
+		} else if (value && typeof value === 'object') {
+			for (const [k, v] of Object.entries(value)) {
+				append(childKey(key, k), v);
+			}
+		} else {
+			target.append(key, value === null ? '' : value + '');
+		}
+	};
+
+	for (const [key, value] of Object.entries(data ?? {})) {
+		append(key, value);
+	}
+	return target;
+};
+
+const parseResponseHeaders = (raw: string) => {
+	const headers = new Headers();
+	for (const line of raw.trim().split(/[\r\n]+/)) {
+		const index = line.indexOf(':');
+		if (index > 0) {
+			headers.append(
+				line.slice(0, index).trim(),
+				line.slice(index + 1).trim()
+			);
+		}
+	}
+	return headers;
+};
+
+/**
+ * `fetch` replacement that reports upload progress.
+ */
+const xhrRequest = (
+	action: string,
+	{
+		method,
+		headers,
+		body,
+	}: { method: string; headers: Record<string, string>; body: any },
+	onUploadProgress: NonNullable<SubmitHandlerParams['onUploadProgress']>
+) =>
+	new Promise<Response>((resolve, reject) => {
+		const xhr = new XMLHttpRequest();
+		xhr.open(method, action);
+		xhr.responseType = 'blob';
+		for (const [key, value] of Object.entries(headers)) {
+			xhr.setRequestHeader(key, value);
+		}
+		xhr.upload.onprogress = (evt) =>
+			onUploadProgress({
+				loaded: evt.loaded,
+				total: evt.lengthComputable ? evt.total : undefined,
+			});
+		xhr.onload = () =>
+			resolve(
+				new Response(
+					[101, 204, 205, 304].includes(xhr.status)
+						? null
+						: xhr.response,
+					{
+						status: xhr.status,
+						statusText: xhr.statusText,
+						headers: parseResponseHeaders(
+							xhr.getAllResponseHeaders()
+						),
+					}
+				)
+			);
+		xhr.onerror = () => reject(new TypeError('network request failed'));
+		xhr.onabort = () => reject(new DOMException('aborted', 'AbortError'));
+		xhr.send(body);
+	});
+
 /**
  * Submits the form based on action, method, and content encoding type.
- * Handles standard querystring/mutipart and JSON.
+ * Handles standard querystring/multipart and JSON. For multipart, the browser
+ * sets `content-type` (including the boundary).
  */
 export const defaultSubmitHandler: SubmitHandler = async (
 	data,
-	{ action = '', method = 'POST', encType = ENCTYPE_JSON, headers = {} } = {}
+	{
+		action = '',
+		method = 'POST',
+		encType = ENCTYPE_JSON,
+		headers = {},
+		keyStyle,
+		onUploadProgress,
+	} = {}
 ) => {
 	let body: any = undefined;
+	const contentType: Record<string, string> = {};
 
-	if (encType === ENCTYPE_JSON) {
+	if (
+		encType === ENCTYPE_JSON ||
+		encType === ENCTYPE_JSON_PATCH ||
+		encType === ENCTYPE_MERGE_PATCH
+	) {
 		if (method && method !== 'GET' && method !== 'HEAD')
 			body = JSON.stringify(data);
+		contentType['content-type'] = encType;
+	} else if (encType === ENCTYPE_URLENCODED) {
+		body = serializeFormData(data, new URLSearchParams(), keyStyle);
+		contentType['content-type'] = encType;
 	} else {
-		const fd =
-			encType === ENCTYPE_URLENCODED
-				? new URLSearchParams()
-				: new FormData();
-		for (const [key, value] of Object.entries(data)) {
-			if (value instanceof Array) {
-				for (const v of value) {
-					fd.append(key, v);
-				}
-			} else {
-				fd.append(key, value + '');
-			}
-		}
-		body = fd;
+		body = serializeFormData(data, new FormData(), keyStyle);
 	}
 
-	return fetch(action, {
-		method,
-		headers: {
-			'content-type': encType,
-			...headers,
-		},
-		body,
-	});
+	const init = { method, headers: { ...contentType, ...headers }, body };
+	return onUploadProgress
+		? xhrRequest(action, init, onUploadProgress)
+		: fetch(action, init);
 };
 
 /**
@@ -110,13 +294,49 @@ export const makeSubmitHandler = (
 		defaultSubmitHandler(data, { ...rootParams, ...params });
 };
 
+/**
+ * Listener arguments (after the event name) of `FHContextProps.events`.
+ */
+export type FHEventMap<Data = any> = {
+	/** Payload is the diff and a copy of the updated data. */
+	updated: [DiffResults, FHData<Data>];
+	/** Payload is a copy of the reset data. */
+	reset: [FHData<Data>];
+	'set-initial': [{ diff: DiffResults; scope: string }];
+	/** The error map changed. */
+	validated: [PayloadDiffValidation];
+	'submit-success': [PayloadSubmitSuccess];
+	/** The submit handler threw, or the response was parsed as a failure. */
+	'submit-error': [PayloadSubmitError];
+	/**
+	 * The form (scope `.`) or a scope bound with `bindToDirtyScope()` flipped
+	 * between pristine and dirty.
+	 */
+	'dirty-changed': [{ scope: string; isDirty: boolean }];
+	/** A field was blurred for the first time (since the last reset). */
+	touched: [{ path: string }];
+	/** A field with a `when()` condition was shown/hidden or enabled/disabled. */
+	'condition-changed': [{ path: string } & FieldConditionState];
+};
+
 export type FHContextProps<Data = any> = {
-	events: EventBus<'updated' | 'reset' | 'set-initial'>;
+	events: EventBus<FHEventMap<Data>>;
 	data: FHData<Data>;
 	initialData: FHData<Data>;
 	scope?: string;
 	getChangelog: () => DiffResults[];
 	clearChangelog: () => DiffResults[];
+	/**
+	 * Reverts the last change recorded in the changelog. Successive changes to the
+	 * same field(s) within a short window are undone as one. Emits `updated`.
+	 */
+	undo: () => void;
+	/** Re-applies the last undone change. Emits `updated`. */
+	redo: () => void;
+	canUndo: () => boolean;
+	canRedo: () => boolean;
+	/** Removes persisted data (no-op unless created with `persist`). */
+	clearPersisted: () => void;
 	getData(): FHData<Data>;
 	getScopedData: (scope: string) => any | undefined;
 	getInitial(): FHData<Data>;
@@ -201,23 +421,181 @@ export type FHContextProps<Data = any> = {
 		scope: string;
 		/** Name of affected control. */
 		name: string;
-		value?: string | boolean | string[];
+		/** A string, boolean, file(s) or parsed value (see `parseValue()`). */
+		value?:
+			| string
+			| boolean
+			| string[]
+			| File
+			| FHFileMeta
+			| (File | FHFileMeta)[]
+			| FHTypedValue;
 		/** Treats `name` as an array */
 		isArray?: boolean;
 		/** Remove `value` from array if true */
 		isArrRemove?: boolean;
 	}) => void;
+	/**
+	 * Returns operations on the array at `scope` (e.g. `items`, `order/items`). Each
+	 * operation emits `updated` with indexed diffs (`items[0]`, `items[1]`, ...).
+	 */
+	arrayOps: <Item = any>(scope: string) => FHArrayOps<Item>;
+	/** Merges `data` into form data at `scope`. Emits `updated`. */
 	setData: (data: FHData<Data>, scope?: string) => void;
+	/** Same as `setData()` for `initialData`. Emits `set-initial`. */
 	setInitial: (data: FHData<Data>, scope?: string) => void;
 	/** Overwrites `data` with `initialData`. Emits `reset`. */
 	reset: () => void;
 	/** Resets individual control. Emits `updated` */
 	resetControl: (name: string, scope?: string) => void;
+	/**
+	 * True if the value at `scope` (the whole form if not given) differs from its
+	 * initial value.
+	 */
+	isDirty: (scope?: string) => boolean;
+	/**
+	 * True if the field at `path`, or any field under it, was blurred since the
+	 * last reset.
+	 */
+	isTouched: (path?: string) => boolean;
+	/**
+	 * Returns only the changed values under `scope`, relative to `scope`, e.g. for
+	 * a `PATCH` request. Removed values are `null` and changed arrays are included
+	 * whole (JSON merge patch semantics).
+	 */
+	getDirtyData: (scope?: string) => any;
+	/**
+	 * Calls `handler` whenever `scope` flips between pristine and dirty. Also
+	 * emits `dirty-changed`.
+	 */
+	bindToDirtyScope: (
+		scope: string,
+		handler: (isDirty: boolean, scope: string) => void
+	) => () => void;
+	/**
+	 * Shows (or enables, with `effect: 'enabled'`) the field or scope at `path`
+	 * only while `predicate` passes (wildcards `*` and `name[*]` allowed).
+	 * Hidden fields aren't validated or submitted. Emits `condition-changed` when
+	 * a field flips.
+	 * @returns Function to remove the condition.
+	 */
+	when: (
+		path: string,
+		predicate: FieldCondition,
+		effect?: FieldConditionEffect
+	) => () => void;
+	isVisible: (path: string) => boolean;
+	isEnabled: (path: string) => boolean;
+	/**
+	 * Derives the value at `path` from the values at `deps`. It's written to
+	 * `initialData` and (through `setControlValue()`) to `data` when registered,
+	 * and to `data` whenever a change touches a dependency; these writes aren't
+	 * recorded for undo. Throws if `path`
+	 * (indirectly) depends on itself.
+	 * @returns Function to remove the computed value.
+	 */
+	computed: (path: string, deps: string[], fn: ComputedFn) => () => void;
+	/** Data of `scope` without hidden fields, as submitted. */
+	getSubmitData: (scope?: string) => any;
+	/**
+	 * Registers a value type for `path` (wildcards `*` and `name[*]` allowed).
+	 * @returns Function to remove the type.
+	 */
+	addValueType: (path: string, type: FHValueTypeRef) => () => void;
+	/**
+	 * Converts a control's string to the value stored at `path`, using `typeName`
+	 * (from `data-fhtype`) or the type registered for `path`. Returns `raw` if
+	 * there's no type.
+	 */
+	parseValue: (
+		path: string,
+		raw: string,
+		typeName?: string
+	) => FHTypedValue | undefined;
+	/** Converts the value at `path` to the string displayed by its control. */
+	formatValue: (path: string, value: any, typeName?: string) => string;
+	/**
+	 * Registers a validation rule for `path` (wildcards `*` and `name[*]` allowed).
+	 * Rules run incrementally against each diff and on blur.
+	 * @returns Function to remove the rule.
+	 */
+	addValidator: (path: string, rule: AnyFieldRule) => () => void;
+	/**
+	 * Runs all rules under `scope` (root if not given) and returns its errors.
+	 * Async rules are started but not awaited. Emits `validated` if the error map
+	 * changed.
+	 */
+	validate: (scope?: string) => ValidationResultMap;
+	/** Same as `validate()`, but resolves once async rules have settled. */
+	validateAsync: (scope?: string) => Promise<ValidationResultMap>;
+	/**
+	 * Replaces server errors under `scope` (keyed by path relative to `scope`).
+	 * Server errors are cleared once their field changes. Emits `validated` if the
+	 * error map changed.
+	 */
+	setServerErrors: (
+		errors: Record<string, string>,
+		scope?: string
+	) => ValidationResultMap;
+	/**
+	 * Awaits and parses the result of submitting `scope`. Failures set server
+	 * errors; successes optionally apply the returned data. Emits `submit-success`
+	 * or `submit-error` (and rethrows if `response` rejects).
+	 */
+	handleSubmitResponse: (
+		response: any,
+		scope?: string
+	) => Promise<ParsedSubmitResponse>;
+	/** Returns current errors under `scope` without running any rules. */
+	getValidationResults: (scope?: string) => ValidationResultMap;
 	submit: SubmitHandler;
+	/**
+	 * Validates `scope` (rejecting with `FHValidationError` on errors, unless
+	 * `params.ignoreErrors` is set) and submits its data without hidden fields.
+	 * The response goes through `handleSubmitResponse()`. `create`, `update`,
+	 * `delete` and `<FHForm/>` submit through this.
+	 * @returns The response and its parsed result.
+	 */
+	send: (
+		scope?: string,
+		params?: SubmitHandlerParams
+	) => Promise<{ response: any; result: ParsedSubmitResponse }>;
+	/**
+	 * `create`, `update` and `delete` validate `scope` first and reject with
+	 * `FHValidationError` if there are errors, unless `params.ignoreErrors` is set.
+	 * The response goes through `handleSubmitResponse()` and is then returned.
+	 */
 	create: (scope?: string, params?: SubmitHandlerParams) => Promise<any>;
 	update: (scope?: string, params?: SubmitHandlerParams) => Promise<any>;
 	delete: (scope?: string, params?: SubmitHandlerParams) => Promise<any>;
+	/**
+	 * Submits only the changes of `scope` (relative to `initialData`) with
+	 * `PATCH`: a merge patch by default, or JSON Patch operations with
+	 * `encType: ENCTYPE_JSON_PATCH`. Validates like `update`. On success, the sent
+	 * values become the initial values of their fields (emits `set-initial`).
+	 */
+	patch: (scope?: string, params?: SubmitHandlerParams) => Promise<any>;
+};
+/**
+ * Manipulates a repeating section of a form. Each entry has a generated key that
+ * follows the entry as it moves, so it can be used as a React `key`.
+ */
+export type FHArrayOps<Item = any> = {
+	/** The current entries. */
+	items: () => Item[];
+	/** Keys parallel to `items()`. */
+	keys: () => string[];
+	append: (...items: Item[]) => void;
+	insert: (index: number, ...items: Item[]) => void;
+	remove: (index: number) => void;
+	/** Inserts a copy of the entry at `index` after it. */
+	duplicate: (index: number) => void;
+	move: (from: number, to: number) => void;
+	swap: (indexA: number, indexB: number) => void;
+	/** Replaces all entries. New keys are generated. */
+	replace: (items: Item[]) => void;
 };
+
 export const FHContext = createContext<FHContextProps>({} as any);
 
 /**
@@ -337,6 +715,81 @@ export const getDataByPath = (
 	return ptr;
 };
 
+/**
+ * Sets (or deletes, if `value` is `undefined`) the value at a `/`-delimited path,
+ * creating missing components along the way. The leaf component may reference an
+ * array index (`items[2]`), in which case trailing `undefined` entries are trimmed.
+ */
+export const setDataByPath = (data: FHData, path: string, value: any) => {
+	const parts = joinScopes(...path.split('/')).split('/');
+	const leaf = parts.pop() as string;
+	getDataByPath(data, parts.join('/') || '.', (ptr) => {
+		const { name, index, key } = parsePathComponent(leaf);
+		let target = ptr;
+		let prop: string | number = name;
+		if (index !== undefined) {
+			if (!(ptr[name] instanceof Array)) {
+				ptr[name] = [];
+			}
+			target = ptr[name];
+			prop = index;
+		} else if (key) {
+			if (name && !ptr[name]) {
+				ptr[name] = {};
+			}
+			target = name ? ptr[name] : ptr;
+			prop = key;
+		}
+
+		if (value !== undefined) {
+			target[prop] = value;
+		} else if (target instanceof Array) {
+			target[prop as number] = undefined;
+			while (
+				target.length > 0 &&
+				target[target.length - 1] === undefined
+			) {
+				target.pop();
+			}
+		} else {
+			delete target[prop];
+		}
+	});
+};
+
+/**
+ * Read-only counterpart to `getDataByPath`: resolves a `/`-delimited path without
+ * creating missing components.
+ *
+ * @return The value pointed to by the leaf component, or `undefined` if any component
+ *   is missing.
+ */
+export const peekDataByPath = (data: FHData, path: string): any => {
+	let ptr = data;
+	for (const component of path.split('/')) {
+		if (component === '') {
+			break;
+		}
+		if (component === '.') {
+			continue;
+		}
+		if (ptr === undefined || ptr === null) {
+			return undefined;
+		}
+
+		const { name, index, key } = parsePathComponent(component);
+		if (name) {
+			ptr = ptr[name];
+		}
+		if (index !== undefined) {
+			ptr = ptr?.[index];
+		} else if (key) {
+			ptr = ptr?.[key];
+		}
+	}
+	return ptr;
+};
+
 export const getScopeAndName = (
 	ele?: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null
 ) => {
@@ -351,8 +804,7 @@ export const getScopeAndName = (
 		prefix = parts.join('/');
 	}
 
-	// traverse up to <form/> to build scope tree
-	// @todo check for data-form-start (for sub-forms)
+	// traverse up to <form/> or a sub-form partition to build scope tree
 	const allScopes: string[] = [];
 	let sptr = ele as HTMLElement | null;
 	while (sptr) {
@@ -396,10 +848,14 @@ export type DiffResults = {
 
 export type ValidationResult = {
 	error?: string;
+	/** Set while async rules of the path are pending. */
+	validating?: boolean;
 };
 
 export type ValidationResultMap = {
 	errors?: number;
+	/** Number of paths with pending async rules. */
+	validating?: number;
 	errorMap?: Record<string, ValidationResult>;
 };
 
@@ -414,6 +870,24 @@ export type PayloadDiffValidation = {
 	validationResults: ValidationResultMap;
 };
 
+export type PayloadSubmitSuccess = {
+	scope: string;
+	response: any;
+	/** Parsed response body. */
+	data?: any;
+};
+
+export type PayloadSubmitError = {
+	scope: string;
+	/** Set if the submit handler threw. */
+	error?: any;
+	/** Set if a response was received. */
+	response?: any;
+	/** Field errors, keyed by path relative to `scope`. */
+	errors?: Record<string, string>;
+	message?: string;
+};
+
 export const computeArrayDiff = (oval: any[], nval: any[]): DiffResults => {
 	const mydiff: DiffResults = {
 		hasDiff: false,
@@ -427,8 +901,10 @@ export const computeArrayDiff = (oval: any[], nval: any[]): DiffResults => {
 		if (
 			oval[i] &&
 			typeof oval[i] === 'object' &&
+			!isBlob(oval[i]) &&
 			nval[i] &&
-			typeof nval[i] === 'object'
+			typeof nval[i] === 'object' &&
+			!isBlob(nval[i])
 		) {
 			const _diff = computeDiff(oval[i], nval[i]);
 			if (_diff.hasDiff) {
@@ -460,7 +936,8 @@ const mergeArrays = (arr1: string[], arr2: string[]) => {
 
 /**
  * Does a deep traverse between two objects to compute changes. Each diff
- * is registered as path.
+ * is registered as path. A value replacing (or replaced by) `null` is a diff of
+ * its path as a whole.
  */
 export const computeDiff = (
 	oval: FHData,
@@ -476,6 +953,7 @@ export const computeDiff = (
 		return curdiff;
 	}
 	if (oval === null || nval === null) {
+		curdiff.hasDiff = true;
 		curdiff.diffs[curpath] = [oval, nval];
 		return curdiff;
 	}
@@ -492,7 +970,12 @@ export const computeDiff = (
 					curdiff.diffs[prefix + okey + index] = arrdiff.diffs[index];
 				}
 			}
-		} else if (typeof ov === 'object' && typeof nv === 'object') {
+		} else if (
+			typeof ov === 'object' &&
+			typeof nv === 'object' &&
+			!isBlob(ov) &&
+			!isBlob(nv)
+		) {
 			computeDiff(ov, nv, prefix + okey, curdiff);
 		} else if (ov !== nv) {
 			curdiff.hasDiff = true;
@@ -503,25 +986,201 @@ export const computeDiff = (
 	return curdiff;
 };
 
+export type JsonPatchOperation =
+	| { op: 'add' | 'replace'; path: string; value: any }
+	| { op: 'remove'; path: string };
+
 /**
- * Standard handler for `input.onChange`.
+ * Converts a form path (`items[0]/price`, `map[key]`) to a JSON pointer
+ * (`/items/0/price`, `/map/key`).
  */
-export const inputChanged = (
-	input: HTMLInputElement,
+export const toJsonPointer = (path: string) =>
+	joinScopes(...path.split('/'))
+		.split('/')
+		.filter((component) => component !== '')
+		.flatMap((component) => {
+			const { name, index, key } = parsePathComponent(component);
+			const tokens = name ? [name] : [];
+			if (index !== undefined) {
+				tokens.push(`${index}`);
+			} else if (key) {
+				tokens.push(key);
+			}
+			return tokens;
+		})
+		.map((token) => '/' + token.replace(/~/g, '~0').replace(/\//g, '~1'))
+		.join('');
+
+/**
+ * Returns RFC 6902 operations turning `oval` into `nval`, derived from
+ * `computeDiff()`. Array entries are removed last, highest index first, so
+ * indices stay valid while the operations are applied.
+ */
+export const toJsonPatch = (
+	oval: FHData,
+	nval: FHData
+): JsonPatchOperation[] => {
+	const ops: JsonPatchOperation[] = [];
+	const arrayRemovals: { path: string; array: string; index: number }[] = [];
+	for (const [path, [ov, nv]] of Object.entries(
+		computeDiff(oval, nval).diffs
+	)) {
+		const indexMatch = path.match(/^(.*)\[(\d+)\]$/);
+		if (nv === undefined && indexMatch) {
+			arrayRemovals.push({
+				path,
+				array: indexMatch[1],
+				index: parseInt(indexMatch[2]),
+			});
+		} else if (nv === undefined) {
+			ops.push({ op: 'remove', path: toJsonPointer(path) });
+		} else {
+			ops.push({
+				op: ov === undefined ? 'add' : 'replace',
+				path: toJsonPointer(path),
+				value: jsonClone(nv),
+			});
+		}
+	}
+	arrayRemovals
+		.sort((a, b) => sortString(a.array, b.array) || b.index - a.index)
+		.forEach(({ path }) =>
+			ops.push({ op: 'remove', path: toJsonPointer(path) })
+		);
+	return ops;
+};
+
+/**
+ * Returns the paths of `computeDiff()` with array entries resolved to their
+ * array (arrays can't be patched by index).
+ */
+export const getPatchPaths = (oval: FHData, nval: FHData) => [
+	...new Set(
+		Object.keys(computeDiff(oval, nval).diffs).map((path) =>
+			path.replace(/(\[\d+\])+$/, '')
+		)
+	),
+];
+
+/**
+ * Returns an RFC 7396 merge patch turning `oval` into `nval`, derived from
+ * `computeDiff()`: only changed values are included, removed values are `null`
+ * and changed arrays are included whole.
+ */
+export const toMergePatch = (oval: FHData, nval: FHData): any => {
+	const patch: any = {};
+	for (const target of getPatchPaths(oval, nval)) {
+		const value = peekDataByPath(nval, target);
+		setDataByPath(
+			patch,
+			target,
+			value === undefined ? null : jsonClone(value)
+		);
+	}
+	return patch;
+};
+
+export type FHFileMeta = {
+	name: string;
+	size: number;
+	type: string;
+	lastModified: number;
+};
+
+export const toFileMeta = (file: File): FHFileMeta => ({
+	name: file.name,
+	size: file.size,
+	type: file.type,
+	lastModified: file.lastModified,
+});
+
+/**
+ * Stores selected or dropped files at `scope/name`: a list if `multiple` is set
+ * (appended to the current list with `append`), otherwise the first file. No
+ * files removes a single value. With `meta`, `FHFileMeta` is stored instead of
+ * `File` objects.
+ */
+export const filesChanged = (
+	files: FileList | File[] | null,
+	{
+		scope,
+		name,
+		multiple = false,
+		meta = false,
+		append = false,
+	}: {
+		scope: string;
+		name: string;
+		multiple?: boolean;
+		meta?: boolean;
+		append?: boolean;
+	},
 	{ updateControlValue, getData }: FHContextProps
 ) => {
+	const values: (File | FHFileMeta)[] = Array.from(files ?? []).map((file) =>
+		meta ? toFileMeta(file) : file
+	);
+	if (multiple) {
+		const current = append
+			? peekDataByPath(getData(), joinScopes(scope, name))
+			: undefined;
+		updateControlValue({
+			scope,
+			name,
+			value: [...(current instanceof Array ? current : []), ...values],
+		});
+	} else {
+		updateControlValue({ scope, name, value: values[0] });
+	}
+};
+
+/**
+ * Returns a function parsing string values of `element` through its value type.
+ */
+const valueParser = (
+	element: HTMLElement,
+	scope: string,
+	name: string,
+	{ parseValue }: FHContextProps
+) => {
+	const path = joinScopes(scope, name);
+	const typeName = element.dataset[DS_KEY_TYPE];
+	return (raw: string) => parseValue(path, raw, typeName);
+};
+
+/**
+ * Standard handler for `input.onChange`. Text-like inputs (`text`, `email`,
+ * `number`, `date`, `range`, `color`, etc.) store `input.value`, parsed through
+ * the value type of the input (`data-fhtype`) or its path.
+ */
+export const inputChanged = (input: HTMLInputElement, ctx: FHContextProps) => {
+	const { updateControlValue } = ctx;
 	if (input.dataset['fhignore']) {
 		return;
 	}
 	const { scope, name } = getScopeAndName(input);
+	const parse = valueParser(input, scope, name, ctx);
 	switch (input.type) {
-		case 'hidden':
-		case 'text':
-			updateControlValue({ scope, name, value: input.value });
+		case 'button':
+		case 'image':
+		case 'reset':
+		case 'submit':
+			break;
+		case 'file':
+			filesChanged(
+				input.files,
+				{
+					scope,
+					name,
+					multiple: input.multiple,
+					meta: input.dataset[DS_KEY_FILE_META] !== undefined,
+				},
+				ctx
+			);
 			break;
 		case 'radio':
 			if (input.checked) {
-				updateControlValue({ scope, name, value: input.value });
+				updateControlValue({ scope, name, value: parse(input.value) });
 			}
 			break;
 		case 'checkbox':
@@ -529,7 +1188,7 @@ export const inputChanged = (
 				updateControlValue({
 					scope,
 					name,
-					value: input.value,
+					value: parse(input.value),
 					isArray: true,
 					isArrRemove: !input.checked,
 				});
@@ -546,13 +1205,13 @@ export const inputChanged = (
 						updateControlValue({
 							scope,
 							name,
-							value: input.value,
+							value: parse(input.value),
 						});
 					} else if (input.dataset[DS_KEY_VAL_UNCHECKED]) {
 						updateControlValue({
 							scope,
 							name,
-							value: input.dataset[DS_KEY_VAL_UNCHECKED],
+							value: parse(input.dataset[DS_KEY_VAL_UNCHECKED]),
 						});
 					} else {
 						updateControlValue({
@@ -564,37 +1223,42 @@ export const inputChanged = (
 				}
 			}
 			break;
+		default:
+			updateControlValue({ scope, name, value: parse(input.value) });
 	}
 };
 
 /**
- * Standard handler for `textarea.onChange`.
+ * Standard handler for `textarea.onChange`. The value is parsed like an input's.
  */
 export const textareaChanged = (
 	textarea: HTMLTextAreaElement,
-	{ updateControlValue, getData }: FHContextProps
+	ctx: FHContextProps
 ) => {
 	const { scope, name } = getScopeAndName(textarea as any);
-	updateControlValue({ scope, name, value: textarea.value });
+	const parse = valueParser(textarea, scope, name, ctx);
+	ctx.updateControlValue({ scope, name, value: parse(textarea.value) });
 };
 
 /**
- * Standard handler for `select.onChange`.
+ * Standard handler for `select.onChange`. Each selected value is parsed like an
+ * input's.
  */
 export const selectChanged = (
 	select: HTMLSelectElement,
-	{ updateControlValue, getData }: FHContextProps
+	ctx: FHContextProps
 ) => {
 	const { scope, name } = getScopeAndName(select as any);
+	const parse = valueParser(select, scope, name, ctx);
 	if (select.multiple) {
-		const vals: string[] = [];
+		const vals: any[] = [];
 		for (const opt of select.options) {
 			if (opt.selected) {
-				vals.push(opt.value);
+				vals.push(parse(opt.value));
 			}
 		}
-		updateControlValue({ scope, name, value: vals });
+		ctx.updateControlValue({ scope, name, value: vals });
 	} else {
-		updateControlValue({ scope, name, value: select.value });
+		ctx.updateControlValue({ scope, name, value: parse(select.value) });
 	}
 };
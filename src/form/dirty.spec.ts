@@ -0,0 +1,94 @@
+import { makeFHContext } from './context';
+
+describe('form/dirty', () => {
+	const makeCtx = () =>
+		makeFHContext({
+			data: {
+				name: 'hen',
+				address: { zip: '12345', city: 'x' },
+				items: [{ sku: 'a' }, { sku: 'b' }],
+			},
+		});
+
+	it('tracks dirty fields and scopes against initial data', () => {
+		const ctx = makeCtx();
+		expect(ctx.isDirty()).toBe(false);
+
+		ctx.setControlValue('zip', '54321', 'address');
+		expect(ctx.isDirty()).toBe(true);
+		expect(ctx.isDirty('address')).toBe(true);
+		expect(ctx.isDirty('address/zip')).toBe(true);
+		expect(ctx.isDirty('address/city')).toBe(false);
+		expect(ctx.isDirty('name')).toBe(false);
+
+		ctx.setControlValue('zip', '12345', 'address');
+		expect(ctx.isDirty()).toBe(false);
+
+		ctx.setControlValue('name', 'rooster');
+		ctx.setInitial({ name: 'rooster' });
+		expect(ctx.isDirty()).toBe(false);
+	});
+
+	it('emits flips between pristine and dirty per scope', () => {
+		const ctx = makeCtx();
+		const address: boolean[] = [];
+		const form: any[] = [];
+		const unbind = ctx.bindToDirtyScope('address', (dirty) =>
+			address.push(dirty)
+		);
+		ctx.events.addListener('dirty-changed', (_evt: string, payload) =>
+			form.push(payload)
+		);
+
+		ctx.setControlValue('zip', '1', 'address');
+		ctx.setControlValue('zip', '2', 'address');
+		ctx.setControlValue('name', 'rooster');
+		ctx.reset();
+		unbind();
+		ctx.setControlValue('zip', '1', 'address');
+
+		expect(address).toEqual([true, false]);
+		expect(form).toEqual([
+			{ scope: 'address', isDirty: true },
+			{ scope: '.', isDirty: true },
+			{ scope: 'address', isDirty: false },
+			{ scope: '.', isDirty: false },
+			{ scope: '.', isDirty: true },
+		]);
+	});
+
+	it('tracks touched fields until reset', () => {
+		const ctx = makeCtx();
+		const touched: string[] = [];
+		ctx.events.addListener('touched', (_evt: string, { path }) =>
+			touched.push(path)
+		);
+
+		ctx.blur('address', 'zip');
+		ctx.blur('address', 'zip');
+		expect(touched).toEqual(['address/zip']);
+		expect(ctx.isTouched('address/zip')).toBe(true);
+		expect(ctx.isTouched('address')).toBe(true);
+		expect(ctx.isTouched()).toBe(true);
+		expect(ctx.isTouched('address/city')).toBe(false);
+		expect(ctx.isTouched('name')).toBe(false);
+
+		ctx.reset();
+		expect(ctx.isTouched()).toBe(false);
+	});
+
+	it('returns only changed values', () => {
+		const ctx = makeCtx();
+		expect(ctx.getDirtyData()).toEqual({});
+
+		ctx.setControlValue('zip', '54321', 'address');
+		ctx.updateControlValue({ scope: '', name: 'name', value: undefined });
+		ctx.arrayOps('items').remove(0);
+		expect(ctx.getDirtyData()).toEqual({
+			name: null,
+			address: { zip: '54321' },
+			items: [{ sku: 'b' }],
+		});
+		expect(ctx.getDirtyData('address')).toEqual({ zip: '54321' });
+	});
+});
@@ -0,0 +1,132 @@
+import { makeFHContext } from './context';
+import { fhRules } from './validation';
+
+describe('form/dynamic', () => {
+	const order = {
+		shipSeparately: false,
+		billing: { zip: '12345' },
+		shipping: { zip: '' },
+		items: [
+			{ qty: 1, price: 2, giftNote: '' },
+			{ qty: 3, price: 4, giftNote: '' },
+		],
+	};
+
+	it('shows, hides and disables fields by condition', () => {
+		const ctx = makeFHContext({
+			data: order,
+			validators: { 'shipping/zip': fhRules.required() },
+		});
+		const changed: any[] = [];
+		ctx.events.addListener('condition-changed', (_evt: string, payload) =>
+			changed.push(payload)
+		);
+		ctx.when('shipping', (data) => data.shipSeparately);
+		ctx.when(
+			'items[*]/giftNote',
+			(data, path) => !path.startsWith('items[1]'),
+			'enabled'
+		);
+
+		expect(ctx.isVisible('shipping/zip')).toBe(false);
+		expect(ctx.isVisible('billing/zip')).toBe(true);
+		expect(ctx.isEnabled('items[0]/giftNote')).toBe(true);
+		expect(ctx.isEnabled('items[1]/giftNote')).toBe(false);
+		expect(ctx.validate().errors).toEqual(0);
+
+		ctx.setControlValue('shipSeparately', true);
+		expect(ctx.isVisible('shipping/zip')).toBe(true);
+		expect(ctx.getValidationResults().errors).toEqual(1);
+		expect(ctx.validate().errors).toEqual(1);
+
+		ctx.setControlValue('shipSeparately', false);
+		expect(ctx.getValidationResults().errors).toEqual(0);
+		expect(changed).toEqual([
+			{ path: 'shipping', visible: false, enabled: true },
+			{ path: 'items[1]/giftNote', visible: true, enabled: false },
+			{ path: 'shipping', visible: true, enabled: true },
+			{ path: 'shipping', visible: false, enabled: true },
+		]);
+	});
+
+	it('excludes hidden fields from submission', async () => {
+		const submit = jest.fn(
+			async (data: any, params: any) => new Response()
+		);
+		const ctx = makeFHContext({ data: order, submit });
+		ctx.when('shipping', (data) => data.shipSeparately);
+		ctx.when('items[*]', (data, path) => path !== 'items[0]');
+
+		expect(ctx.getSubmitData()).toEqual({
+			shipSeparately: false,
+			billing: { zip: '12345' },
+			items: [{ qty: 3, price: 4, giftNote: '' }],
+		});
+
+		await ctx.update();
+		expect(submit.mock.calls[0][0]).toEqual(ctx.getSubmitData());
+
+		ctx.setControlValue('zip', '54321', 'shipping');
+		ctx.setControlValue('zip', '1', 'billing');
+		await ctx.patch();
+		expect(submit.mock.calls[1][0]).toEqual({ billing: { zip: '1' } });
+		expect(ctx.isDirty('shipping')).toBe(true);
+	});
+
+	it("doesn't create missing scopes of hidden fields", () => {
+		const ctx = makeFHContext({ data: { name: 'hen' } });
+		ctx.when('shipping/address', () => false);
+		ctx.when('billing[zip]', () => false);
+		expect(ctx.getSubmitData()).toEqual({ name: 'hen' });
+		expect(ctx.getData()).toEqual({ name: 'hen' });
+	});
+
+	it('writes computed values when dependencies change', () => {
+		const ctx = makeFHContext({ data: order });
+		const sum = (items: any[]) =>
+			items.reduce((total, item) => total + item.qty * item.price, 0);
+		ctx.computed('totals/subtotal', ['items'], sum);
+		ctx.computed(
+			'totals/total',
+			['totals/subtotal', 'shipping/fee'],
+			(sub, fee = 0) => sub + fee
+		);
+		expect(ctx.getData().totals).toEqual({ subtotal: 14, total: 14 });
+		expect(ctx.isDirty()).toBe(false);
+		expect(ctx.getDirtyData()).toEqual({});
+
+		ctx.setControlValue('price', 10, 'items[0]');
+		expect(ctx.getData().totals).toEqual({ subtotal: 22, total: 22 });
+		ctx.setControlValue('fee', 5, 'shipping');
+		expect(ctx.getData().totals).toEqual({ subtotal: 22, total: 27 });
+
+		// computed writes aren't undone on their own
+		ctx.undo();
+		expect(ctx.getData().totals).toEqual({ subtotal: 22, total: 22 });
+		ctx.undo();
+		expect(ctx.getData().totals).toEqual({ subtotal: 14, total: 14 });
+		expect(ctx.canUndo()).toBe(false);
+		expect(ctx.isDirty()).toBe(false);
+
+		ctx.setControlValue('price', 10, 'items[0]');
+		expect(ctx.getDirtyData()).toEqual({
+			items: [{ qty: 1, price: 10, giftNote: '' }, order.items[1]],
+			totals: { subtotal: 22, total: 22 },
+		});
+		ctx.reset();
+		expect(ctx.isDirty()).toBe(false);
+	});
+
+	it('rejects computed cycles', () => {
+		const ctx = makeFHContext({ data: { a: 1 } });
+		ctx.computed('b', ['a'], (a) => a + 1);
+		ctx.computed('c', ['b'], (b) => b + 1);
+		expect(() => ctx.computed('a', ['c'], (c) => c + 1)).toThrow(
+			'computed cycle: a -> c -> b -> a'
+		);
+		expect(() => ctx.computed('d', ['d'], (d) => d)).toThrow(
+			'computed cycle: d -> d'
+		);
+		expect(ctx.getData()).toEqual({ a: 1, b: 2, c: 3 });
+	});
+});
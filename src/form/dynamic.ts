@@ -0,0 +1,172 @@
+import type { FHData } from './core';
+import { joinScopes, peekDataByPath } from './core';
+import { expandPath, pathsIntersect, patternToRegExp } from './validation';
+
+/**
+ * Decides whether the field at `path` is visible (or enabled). `path` is
+ * concrete, so wildcard conditions can look at sibling fields.
+ */
+export type FieldCondition = (data: FHData, path: string) => boolean;
+
+export type FieldConditionEffect = 'visible' | 'enabled';
+
+export type FieldConditionState = { visible: boolean; enabled: boolean };
+
+/** Derives a value from the values of its dependencies (in order). */
+export type ComputedFn = (...values: any[]) => any;
+
+type RegisteredCondition = {
+	path: string;
+	re: RegExp;
+	predicate: FieldCondition;
+	effect: FieldConditionEffect;
+};
+
+type RegisteredComputed = { path: string; deps: string[]; fn: ComputedFn };
+
+const normalizePath = (path: string) => joinScopes(...path.split('/'));
+
+/** Returns `path` and each of its ancestors, e.g. `a/b[0]` -> `a/b[0]`, `a`. */
+const selfAndAncestors = (path: string) => {
+	const parts = path.split('/');
+	return parts.map((_, i) => parts.slice(0, parts.length - i).join('/'));
+};
+
+/**
+ * Keeps conditional (`when`) and computed fields of a form.
+ *
+ * - conditions apply to their path and everything under it; multiple conditions
+ *   of the same effect must all pass
+ * - computed fields are concrete paths whose value is derived from dependency
+ *   paths. A dependency matches every change intersecting it (e.g. `items`
+ *   matches `items[0]/price`). Adding a computed field that (indirectly) depends
+ *   on itself throws
+ */
+export const makeDynamicFields = () => {
+	let conditions: RegisteredCondition[] = [];
+	let computeds: RegisteredComputed[] = [];
+
+	const addCondition = (
+		path: string,
+		predicate: FieldCondition,
+		effect: FieldConditionEffect = 'visible'
+	) => {
+		const npath = normalizePath(path);
+		const entry = {
+			path: npath,
+			re: patternToRegExp(npath),
+			predicate,
+			effect,
+		};
+		conditions.push(entry);
+		return () => {
+			conditions = conditions.filter((c) => c !== entry);
+		};
+	};
+
+	const check = (
+		path: string,
+		effect: FieldConditionEffect,
+		data: FHData
+	) => {
+		const paths = selfAndAncestors(normalizePath(path));
+		return conditions.every(
+			(c) =>
+				c.effect !== effect ||
+				paths.every((p) => !c.re.test(p) || c.predicate(data, p))
+		);
+	};
+
+	/**
+	 * Returns the state of every concrete path with a condition.
+	 */
+	const getConditionStates = (data: FHData) => {
+		const states: Record<string, FieldConditionState> = {};
+		for (const c of conditions) {
+			for (const path of expandPath(c.path, data)) {
+				states[path] = {
+					visible: check(path, 'visible', data),
+					enabled: check(path, 'enabled', data),
+				};
+			}
+		}
+		return states;
+	};
+
+	/**
+	 * Returns the chain of computed fields leading from `entry` back to itself
+	 * through dependencies, if there's one.
+	 */
+	const findCycle = (
+		entry: RegisteredComputed,
+		chain: RegisteredComputed[] = [entry]
+	): RegisteredComputed[] | undefined => {
+		const current = chain[chain.length - 1];
+		for (const next of [...computeds, entry]) {
+			if (!current.deps.some((dep) => pathsIntersect(dep, next.path))) {
+				continue;
+			}
+			if (next === entry) {
+				return [...chain, next];
+			}
+			if (!chain.includes(next)) {
+				const cycle = findCycle(entry, [...chain, next]);
+				if (cycle) {
+					return cycle;
+				}
+			}
+		}
+		return undefined;
+	};
+
+	const addComputed = (path: string, deps: string[], fn: ComputedFn) => {
+		const entry = {
+			path: normalizePath(path),
+			deps: deps.map(normalizePath),
+			fn,
+		};
+		const cycle = findCycle(entry);
+		if (cycle) {
+			throw new Error(
+				`computed cycle: ${cycle
+					.map((c) => c.path || '.')
+					.join(' -> ')}`
+			);
+		}
+		computeds.push(entry);
+		return () => {
+			computeds = computeds.filter((c) => c !== entry);
+		};
+	};
+
+	return {
+		addCondition,
+		isVisible: (path: string, data: FHData) => check(path, 'visible', data),
+		isEnabled: (path: string, data: FHData) => check(path, 'enabled', data),
+		getConditionStates,
+		/** Concrete paths hidden by a `visible` condition. */
+		getHiddenPaths: (data: FHData) =>
+			Object.entries(getConditionStates(data))
+				.filter(([, state]) => !state.visible)
+				.map(([path]) => path),
+		addComputed,
+		/**
+		 * Returns computed fields depending on any of `changed` (all if not given).
+		 * `compute` derives the value from the given data.
+		 */
+		getAffectedComputeds: (changed?: string[]) =>
+			computeds
+				.filter(
+					(c) =>
+						!changed ||
+						c.deps.some((dep) =>
+							changed.some((path) => pathsIntersect(dep, path))
+						)
+				)
+				.map((c) => ({
+					path: c.path,
+					compute: (data: FHData) =>
+						c.fn(...c.deps.map((dep) => peekDataByPath(data, dep))),
+				})),
+	};
+};
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { makeFHContext } from './context';
+import { computeDiff, getDataProps, inputChanged, jsonClone } from './core';
+import { useFHFileDrop } from './hooks';
+import { fhRules } from './validation';
+
+const makeInput = (
+	type: string,
+	name: string,
+	props: Record<string, any> = {},
+	dataProps: Record<string, any> = {}
+) => {
+	const input = document.createElement('input');
+	input.type = type;
+	input.name = name;
+	for (const [key, value] of Object.entries(dataProps)) {
+		if (value !== undefined) {
+			input.setAttribute(key, value);
+		}
+	}
+	for (const [key, value] of Object.entries(props)) {
+		Object.defineProperty(input, key, { value });
+	}
+	return input;
+};
+
+describe('form/files', () => {
+	const png = new File(['png'], 'a.png', { type: 'image/png' });
+	const pdf = new File(['pdf'], 'b.pdf', { type: 'application/pdf' });
+
+	it('keeps files by reference when cloning and diffing', () => {
+		const data = { docs: [png], avatar: png };
+		const clone = jsonClone(data);
+		expect(clone.avatar).toBe(png);
+		expect(clone.docs[0]).toBe(png);
+		expect(computeDiff(data, { docs: [pdf], avatar: png })).toEqual({
+			hasDiff: true,
+			diffs: { 'docs[0]': [png, pdf] },
+		});
+	});
+
+	it('diffs values replacing or replaced by null', () => {
+		// only the path was recorded, so `updated` wasn't emitted
+		expect(computeDiff({ meta: null }, { meta: { size: 1 } })).toEqual({
+			hasDiff: true,
+			diffs: { meta: [null, { size: 1 }] },
+		});
+
+		const ctx = makeFHContext({ data: { meta: { size: 1 } } });
+		const updated = jest.fn();
+		ctx.events.addListener('updated', updated);
+		ctx.setControlValue('meta', null);
+		expect(updated.mock.calls[0][1]).toEqual({
+			hasDiff: true,
+			diffs: { meta: [{ size: 1 }, null] },
+		});
+	});
+
+	it('stores files and text-like values from inputs', () => {
+		const ctx = makeFHContext({ data: {} });
+		inputChanged(makeInput('file', 'avatar', { files: [png] }), ctx);
+		inputChanged(
+			makeInput('file', 'docs', { files: [png, pdf], multiple: true }),
+			ctx
+		);
+		inputChanged(
+			makeInput(
+				'file',
+				'meta',
+				{ files: [pdf] },
+				getDataProps({ fileMeta: true })
+			),
+			ctx
+		);
+		inputChanged(makeInput('number', 'qty', { value: '3' }), ctx);
+		inputChanged(makeInput('email', 'email', { value: 'a@b.c' }), ctx);
+		inputChanged(makeInput('date', 'due', { value: '2024-01-02' }), ctx);
+
+		expect(ctx.getData()).toEqual({
+			avatar: png,
+			docs: [png, pdf],
+			meta: {
+				name: 'b.pdf',
+				size: 3,
+				type: 'application/pdf',
+				lastModified: pdf.lastModified,
+			},
+			qty: '3',
+			email: 'a@b.c',
+			due: '2024-01-02',
+		});
+
+		inputChanged(makeInput('file', 'avatar', { files: [] }), ctx);
+		expect(ctx.getData().avatar).toBeUndefined();
+	});
+
+	it('validates file constraints', () => {
+		expect(fhRules.maxFileSize(2)([png], {}, 'docs')).toBeTruthy();
+		expect(fhRules.maxFileSize(3)([png, pdf], {}, 'docs')).toBeUndefined();
+		expect(
+			fhRules.fileType('image/*')([png, pdf], {}, 'docs')
+		).toBeTruthy();
+		expect(
+			fhRules.fileType('image/*,.pdf')([png, pdf], {}, 'docs')
+		).toBeUndefined();
+		expect(fhRules.maxFiles(1)([png, pdf], {}, 'docs')).toBeTruthy();
+	});
+
+	it('appends dropped files', () => {
+		const ctx = makeFHContext({ data: { docs: [png] } });
+		const { result } = renderHook(() =>
+			useFHFileDrop('.', 'docs', { multiple: true }, ctx)
+		);
+		const evt: any = {
+			preventDefault: jest.fn(),
+			dataTransfer: { files: [pdf] },
+		};
+		act(() => result.current.dropProps.onDragOver(evt));
+		expect(result.current.isDragOver).toBe(true);
+		act(() => result.current.dropProps.onDrop(evt));
+		expect(result.current.isDragOver).toBe(false);
+		expect(ctx.getData().docs).toEqual([png, pdf]);
+	});
+});
@@ -0,0 +1,49 @@
+import { makeFHContext } from './context';
+
+describe('form/history', () => {
+	it('undoes and redoes changes with scoped events', () => {
+		const ctx = makeFHContext({
+			data: { address: { line1: 'a' } },
+			history: { coalesceMs: 0 },
+		});
+		const fired: string[] = [];
+		ctx.bindToUpdatedScope(
+			(evt, args) => fired.push((args as any).valDiff[1]),
+			'address',
+			'line1'
+		);
+
+		ctx.setControlValue('line1', 'b', 'address');
+		ctx.setControlValue('line1', 'c', 'address');
+		ctx.undo();
+		expect(ctx.getData().address.line1).toEqual('b');
+		ctx.undo();
+		expect(ctx.getData().address.line1).toEqual('a');
+		expect(ctx.canUndo()).toEqual(false);
+		ctx.redo();
+		expect(ctx.getData().address.line1).toEqual('b');
+		expect(fired).toEqual(['b', 'c', 'b', 'a', 'b']);
+	});
+
+	it('coalesces rapid changes to the same field', () => {
+		const ctx = makeFHContext({ data: { name: '' } });
+		ctx.setControlValue('name', 'h');
+		ctx.setControlValue('name', 'he');
+		ctx.setControlValue('name', 'hen');
+		ctx.setControlValue('other', 'x');
+		ctx.undo();
+		ctx.undo();
+		expect(ctx.getData()).toEqual({ name: '' });
+		expect(ctx.canUndo()).toEqual(false);
+	});
+
+	it('restores removed array entries', () => {
+		const ctx = makeFHContext({ data: { items: ['a', 'b', 'c'] } });
+		ctx.arrayOps('items').remove(0);
+		expect(ctx.getData().items).toEqual(['b', 'c']);
+		ctx.undo();
+		expect(ctx.getData().items).toEqual(['a', 'b', 'c']);
+		ctx.redo();
+		expect(ctx.getData().items).toEqual(['b', 'c']);
+	});
+});
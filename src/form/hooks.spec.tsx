@@ -0,0 +1,88 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { makeFHContext } from './context';
+import { useFHField, useFHFieldArray, useFHScope } from './hooks';
+
+describe('form/hooks', () => {
+	it('re-renders a field only on its own diffs', () => {
+		const ctx = makeFHContext({
+			data: { firstName: 'hen', address: { line1: '123 street' } },
+		});
+		let renders = 0;
+		const { result } = renderHook(() => {
+			renders++;
+			return useFHField('address', 'line1', ctx);
+		});
+
+		expect(result.current.value).toEqual('123 street');
+		act(() => ctx.setControlValue('firstName', 'jen'));
+		expect(renders).toEqual(1);
+
+		act(() => result.current.setValue('456 street'));
+		expect(renders).toEqual(2);
+		expect(result.current).toMatchObject({
+			value: '456 street',
+			initialValue: '123 street',
+			isDirty: true,
+		});
+
+		act(() => result.current.reset());
+		expect(result.current.isDirty).toEqual(false);
+	});
+
+	it('re-renders a scope on nested diffs', () => {
+		const ctx = makeFHContext({
+			data: { items: [{ price: 1 }], notes: '' },
+		});
+		let renders = 0;
+		const { result } = renderHook(() => {
+			renders++;
+			return useFHScope('items', ctx);
+		});
+
+		act(() => ctx.setControlValue('notes', 'x'));
+		expect(renders).toEqual(1);
+		act(() => ctx.setControlValue('price', 2, 'items[0]'));
+		expect(renders).toEqual(2);
+		expect(result.current).toEqual([{ price: 2 }]);
+
+		result.current[0].price = 3;
+		expect(ctx.getData().items).toEqual([{ price: 2 }]);
+	});
+
+	it('reads missing scopes without creating them', () => {
+		const ctx = makeFHContext({ data: {} });
+		const { result } = renderHook(() => useFHScope('address', ctx));
+		expect(result.current).toBeUndefined();
+		expect(ctx.getData()).toEqual({});
+	});
+
+	it('keeps stable keys across array operations', () => {
+		const ctx = makeFHContext({
+			data: { items: [{ sku: 'a' }, { sku: 'b' }] },
+		});
+		const wildcard: string[] = [];
+		ctx.bindToUpdatedScope(() => wildcard.push('items/*'), 'items/*');
+		const { result } = renderHook(() => useFHFieldArray('items', ctx));
+		const [keyA, keyB] = result.current.fields.map((f) => f.key);
+
+		act(() => result.current.append({ sku: 'c' }));
+		act(() => result.current.move(2, 0));
+		expect(result.current.fields.map((f) => f.value.sku)).toEqual([
+			'c',
+			'a',
+			'b',
+		]);
+		expect(result.current.fields.slice(1).map((f) => f.key)).toEqual([
+			keyA,
+			keyB,
+		]);
+
+		act(() => result.current.remove(1));
+		expect(ctx.getData().items).toEqual([{ sku: 'c' }, { sku: 'b' }]);
+		expect(result.current.fields[1].key).toEqual(keyB);
+		expect(wildcard.length).toEqual(3);
+	});
+});
@@ -0,0 +1,254 @@
+import React, { useContext, useEffect, useRef, useState } from 'react';
+import type { FHArrayOps, FHContextProps, ValidationResult } from './core';
+import {
+	FHContext,
+	filesChanged,
+	joinScopes,
+	jsonClone,
+	peekDataByPath,
+} from './core';
+
+/**
+ * Binds `handler` to the diff events of `path` and each of its ancestor paths.
+ * Ancestors are included since a diff on `items[0]` (e.g. a whole array element
+ * being replaced) also changes `items[0]/price`.
+ */
+const bindToPathAndAncestors = (
+	ctx: FHContextProps,
+	path: string,
+	handler: () => void
+) => {
+	const unbinds: (() => void)[] = [];
+	const parts = path.split('/');
+	while (parts.length > 0) {
+		const name = parts.pop() as string;
+		const scope = parts.join('/');
+		unbinds.push(ctx.bindToUpdatedScope(handler, scope, name));
+		if (name.match(/\[\d+\]$/)) {
+			unbinds.push(
+				ctx.bindToUpdatedScope(
+					handler,
+					scope,
+					name.replace(/\[\d+\]$/, '')
+				)
+			);
+		}
+	}
+	return () => unbinds.forEach((f) => f());
+};
+
+export type FHFieldState<Value = any> = {
+	value: Value;
+	initialValue: Value;
+	/** `value` formatted through the value type of the field. */
+	displayValue: string;
+	isDirty: boolean;
+	/** True once the field was blurred (until the form is reset). */
+	isTouched: boolean;
+	/** False while a `when()` condition of the field (or a parent) fails. */
+	isVisible: boolean;
+	isEnabled: boolean;
+	/** The current validation error of the field. */
+	error?: string;
+	/** True while async rules of the field are pending. */
+	validating: boolean;
+	/** Sets the field's value. Emits `updated`. */
+	setValue: (value: Value) => void;
+	/** Resets the field to its initial value. */
+	reset: () => void;
+	/** Invokes the blur lifecycle for this field. */
+	blur: () => void;
+};
+
+/**
+ * Subscribes to a single field of the enclosing (or given) `FHContext`. The
+ * component only re-renders when a diff touches the field, when the field's
+ * validation error or `validating` flag changes, when it's first touched, when
+ * it's shown/hidden or enabled/disabled, or when the form is reset.
+ */
+export const useFHField = <Value = any>(
+	scope: string,
+	name: string,
+	optCtx?: FHContextProps
+): FHFieldState<Value> => {
+	const defaultCtx = useContext(FHContext);
+	const ctx = optCtx ?? defaultCtx;
+	const path = joinScopes(scope, name);
+	const [, setTick] = useState(0);
+	const lastResult = useRef<ValidationResult | undefined>();
+	lastResult.current = ctx.getValidationResults(path).errorMap?.[path];
+
+	useEffect(() => {
+		const rerender = () => setTick((t) => t + 1);
+		const unbinds = [
+			bindToPathAndAncestors(ctx, path, rerender),
+			ctx.events.addListener('reset', rerender),
+			ctx.events.addListener('set-initial', rerender),
+			ctx.events.addListener('touched', (_evt: string, touched) => {
+				if (touched.path === path) {
+					rerender();
+				}
+			}),
+			ctx.events.addListener(
+				'condition-changed',
+				(_evt: string, { path: changed }) => {
+					if (
+						path === changed ||
+						path.startsWith(changed + '/') ||
+						path.startsWith(changed + '[')
+					) {
+						rerender();
+					}
+				}
+			),
+			ctx.events.addListener(
+				'validated',
+				(_evt: string, { validationResults }) => {
+					const result = validationResults.errorMap?.[path];
+					if (
+						result?.error !== lastResult.current?.error ||
+						!!result?.validating !==
+							!!lastResult.current?.validating
+					) {
+						rerender();
+					}
+				}
+			),
+		];
+		return () => unbinds.forEach((f) => f());
+	}, [ctx, path]);
+
+	const value = peekDataByPath(ctx.getData(), path);
+	const initialValue = peekDataByPath(ctx.getInitial(), path);
+	return {
+		value,
+		initialValue,
+		displayValue: ctx.formatValue(path, value),
+		isDirty: ctx.isDirty(path),
+		isTouched: ctx.isTouched(path),
+		isVisible: ctx.isVisible(path),
+		isEnabled: ctx.isEnabled(path),
+		error: lastResult.current?.error,
+		validating: !!lastResult.current?.validating,
+		setValue: (value) => ctx.setControlValue(name, value, scope),
+		reset: () => ctx.resetControl(name, scope),
+		blur: () => ctx.blur(scope, name),
+	};
+};
+
+/**
+ * Subscribes to a scope of the enclosing (or given) `FHContext` and returns a copy
+ * of its subtree. The component only re-renders when a diff touches the scope (or the
+ * whole form for root scope `.`), or when the form is reset.
+ */
+export const useFHScope = <Data = any>(
+	scope: string,
+	optCtx?: FHContextProps
+): Data => {
+	const defaultCtx = useContext(FHContext);
+	const ctx = optCtx ?? defaultCtx;
+	const [, setTick] = useState(0);
+
+	useEffect(() => {
+		const rerender = () => setTick((t) => t + 1);
+		const nscope = joinScopes(scope);
+		const unbinds = [
+			ctx.events.addListener('reset', rerender),
+			nscope
+				? bindToPathAndAncestors(ctx, nscope, rerender)
+				: ctx.events.addListener('updated', rerender),
+		];
+		if (nscope) {
+			unbinds.push(ctx.bindToUpdatedScope(rerender, nscope));
+		}
+		return () => unbinds.forEach((f) => f());
+	}, [ctx, scope]);
+
+	const value = peekDataByPath(ctx.getData(), joinScopes(scope));
+	return value === undefined ? value : jsonClone(value);
+};
+
+export type FHFieldArrayEntry<Item = any> = {
+	/** Stable key for rendering. */
+	key: string;
+	index: number;
+	/** Full path of the entry, e.g. `items[0]`. */
+	scope: string;
+	value: Item;
+};
+
+/**
+ * Subscribes to the array at `scope` and returns its entries along with
+ * `ctx.arrayOps(scope)`. Re-renders when a diff touches the array or when the
+ * form is reset.
+ */
+export const useFHFieldArray = <Item = any>(
+	scope: string,
+	optCtx?: FHContextProps
+): FHArrayOps<Item> & { fields: FHFieldArrayEntry<Item>[] } => {
+	const defaultCtx = useContext(FHContext);
+	const ctx = optCtx ?? defaultCtx;
+	const [, setTick] = useState(0);
+	const path = joinScopes(...scope.split('/'));
+
+	useEffect(() => {
+		const rerender = () => setTick((t) => t + 1);
+		const unbinds = [
+			bindToPathAndAncestors(ctx, path, rerender),
+			ctx.bindToUpdatedScope(rerender, path),
+			ctx.events.addListener('reset', rerender),
+		];
+		return () => unbinds.forEach((f) => f());
+	}, [ctx, path]);
+
+	const ops = ctx.arrayOps<Item>(path);
+	const keys = ops.keys();
+	return {
+		...ops,
+		fields: ops.items().map((value, index) => ({
+			key: keys[index],
+			index,
+			scope: `${path}[${index}]`,
+			value,
+		})),
+	};
+};
+
+/**
+ * Drag-and-drop for files: spread `dropProps` on the drop zone. Dropped files are
+ * stored at `scope/name` like a file input's (appended to the list if
+ * `multiple`). `isDragOver` is set while files are dragged over the zone.
+ */
+export const useFHFileDrop = (
+	scope: string,
+	name: string,
+	{
+		multiple = false,
+		meta = false,
+	}: { multiple?: boolean; meta?: boolean } = {},
+	optCtx?: FHContextProps
+) => {
+	const defaultCtx = useContext(FHContext);
+	const ctx = optCtx ?? defaultCtx;
+	const [isDragOver, setDragOver] = useState(false);
+
+	return {
+		isDragOver,
+		dropProps: {
+			onDragOver: (e: React.DragEvent<HTMLElement>) => {
+				e.preventDefault();
+				setDragOver(true);
+			},
+			onDragLeave: () => setDragOver(false),
+			onDrop: (e: React.DragEvent<HTMLElement>) => {
+				e.preventDefault();
+				setDragOver(false);
+				filesChanged(
+					e.dataTransfer.files,
+					{ scope, name, multiple, meta, append: multiple },
+					ctx
+				);
+			},
+		},
+	};
+};
@@ -1,3 +1,8 @@
 export * from './core';
 export * from './context';
 export * from './components';
+export * from './validation';
+export * from './responses';
+export * from './hooks';
+export * from './values';
+export * from './dynamic';
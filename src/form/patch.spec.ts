@@ -0,0 +1,109 @@
+import { makeFHContext } from './context';
+import {
+	ENCTYPE_JSON_PATCH,
+	ENCTYPE_MERGE_PATCH,
+	toJsonPatch,
+	toJsonPointer,
+	toMergePatch,
+} from './core';
+
+describe('form/patch', () => {
+	const initial = {
+		name: 'hen',
+		note: 'x',
+		address: { zip: '12345', city: 'y' },
+		tags: ['a', 'b', 'c'],
+	};
+	const changed = {
+		name: 'rooster',
+		address: { zip: '12345', city: 'z', 'a~b': 1 },
+		tags: ['a'],
+		age: 2,
+	};
+
+	it('converts paths to JSON pointers', () => {
+		expect(toJsonPointer('items[0]/price')).toEqual('/items/0/price');
+		expect(toJsonPointer('map[key]/a')).toEqual('/map/key/a');
+		expect(toJsonPointer('.')).toEqual('');
+	});
+
+	it('derives JSON Patch operations and merge patches', () => {
+		expect(toJsonPatch(initial, changed)).toEqual([
+			{ op: 'replace', path: '/name', value: 'rooster' },
+			{ op: 'remove', path: '/note' },
+			{ op: 'replace', path: '/address/city', value: 'z' },
+			{ op: 'add', path: '/address/a~0b', value: 1 },
+			{ op: 'add', path: '/age', value: 2 },
+			{ op: 'remove', path: '/tags/2' },
+			{ op: 'remove', path: '/tags/1' },
+		]);
+		expect(toMergePatch(initial, changed)).toEqual({
+			name: 'rooster',
+			note: null,
+			address: { city: 'z', 'a~b': 1 },
+			tags: ['a'],
+			age: 2,
+		});
+	});
+
+	it('submits changes and promotes them to initial data', async () => {
+		const submit = jest.fn(async (data: any, params: any) => {
+			// edited while the request is in flight
+			ctx.setControlValue('name', 'rooster');
+			return new Response();
+		});
+		const ctx = makeFHContext({ data: initial, submit });
+		ctx.setControlValue('city', 'z', 'address');
+		ctx.updateControlValue({ scope: '', name: 'note', value: undefined });
+
+		await ctx.patch();
+
+		expect(submit).toHaveBeenCalledWith(
+			{ address: { city: 'z' }, note: null },
+			{ method: 'PATCH', encType: ENCTYPE_MERGE_PATCH }
+		);
+		expect(ctx.getInitial()).toEqual({
+			name: 'hen',
+			address: { zip: '12345', city: 'z' },
+			tags: ['a', 'b', 'c'],
+		});
+		expect(ctx.isDirty('address')).toBe(false);
+		expect(ctx.isDirty('name')).toBe(true);
+	});
+
+	it('sends JSON Patch operations for a scope', async () => {
+		const submit = jest.fn(
+			async (data: any, params: any) => new Response()
+		);
+		const ctx = makeFHContext({ data: initial, submit });
+		ctx.setControlValue('zip', '54321', 'address');
+
+		await ctx.patch('address', {
+			action: '/address',
+			encType: ENCTYPE_JSON_PATCH,
+		});
+		expect(submit).toHaveBeenCalledWith(
+			[{ op: 'replace', path: '/zip', value: '54321' }],
+			{ action: '/address', method: 'PATCH', encType: ENCTYPE_JSON_PATCH }
+		);
+		expect(ctx.isDirty()).toBe(false);
+	});
+
+	it('keeps changes dirty if the patch fails', async () => {
+		const submit = jest.fn(
+			async () =>
+				new Response(JSON.stringify({ errors: { name: 'taken' } }), {
+					status: 422,
+					headers: { 'content-type': 'application/json' },
+				})
+		);
+		const ctx = makeFHContext({ data: initial, submit });
+		ctx.setControlValue('name', 'rooster');
+
+		await ctx.patch();
+		expect(ctx.isDirty('name')).toBe(true);
+		expect(ctx.getValidationResults().errorMap?.name?.error).toEqual(
+			'taken'
+		);
+	});
+});
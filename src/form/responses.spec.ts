@@ -0,0 +1,136 @@
+import { makeFHContext } from './context';
+import {
+	defaultResponseParser,
+	parseErrorBody,
+	toFieldPath,
+} from './responses';
+
+const jsonResponse = (body: any, status = 200, type = 'application/json') =>
+	new Response(JSON.stringify(body), {
+		status,
+		headers: { 'content-type': type },
+	});
+
+describe('form/responses', () => {
+	it('converts server field references to form paths', () => {
+		expect(toFieldPath('/items/0/price')).toEqual('items[0]/price');
+		expect(toFieldPath('#/a~1b')).toEqual('a/b');
+		expect(toFieldPath('items.1.sku')).toEqual('items[1]/sku');
+		expect(toFieldPath('items[0]/price')).toEqual('items[0]/price');
+	});
+
+	it('treats any value as data where Response is undefined', async () => {
+		const { Response } = globalThis;
+		delete (globalThis as any).Response;
+		try {
+			expect(await defaultResponseParser({ id: 1 })).toEqual({
+				ok: true,
+				data: { id: 1 },
+			});
+		} finally {
+			globalThis.Response = Response;
+		}
+	});
+
+	it('parses problem details and error maps', async () => {
+		expect(
+			parseErrorBody({
+				title: 'Your request parameters did not validate.',
+				'invalid-params': [
+					{ name: 'age', reason: 'must be a positive integer' },
+				],
+			})
+		).toEqual({
+			errors: { age: 'must be a positive integer' },
+			message: 'Your request parameters did not validate.',
+		});
+		expect(
+			parseErrorBody({ errors: { 'address/zip': ['invalid', 'short'] } })
+		).toEqual({ errors: { 'address/zip': 'invalid' }, message: undefined });
+
+		const parsed = await defaultResponseParser(
+			jsonResponse(
+				{
+					detail: 'nope',
+					errors: [{ pointer: '/name', detail: 'taken' }],
+				},
+				422,
+				'application/problem+json'
+			)
+		);
+		expect(parsed).toMatchObject({
+			ok: false,
+			errors: { name: 'taken' },
+			message: 'nope',
+		});
+	});
+
+	it('maps failed submissions onto fields', async () => {
+		const ctx = makeFHContext({
+			data: { name: 'hen', address: { zip: '1' } },
+			submit: async () =>
+				jsonResponse({ errors: { zip: 'unknown zip' } }, 400),
+		});
+		const events: any[] = [];
+		ctx.events.addListener('submit-error', (evt, payload) =>
+			events.push(payload)
+		);
+
+		const response = await ctx.update('address');
+		expect(response.status).toEqual(400);
+		expect(await response.json()).toEqual({
+			errors: { zip: 'unknown zip' },
+		});
+		expect(ctx.getValidationResults().errorMap).toEqual({
+			'address/zip': { error: 'unknown zip' },
+		});
+		expect(events).toMatchObject([
+			{ scope: 'address', errors: { zip: 'unknown zip' } },
+		]);
+
+		// cleared once the field changes
+		ctx.setControlValue('zip', '12345', 'address');
+		expect(ctx.getValidationResults().errors).toEqual(0);
+	});
+
+	it('assigns initial data with setInitial()', () => {
+		const ctx = makeFHContext({ data: { address: { zip: '1' } } });
+		const setInitial = jest.fn();
+		ctx.events.addListener('set-initial', setInitial);
+
+		ctx.setInitial({ zip: '2' }, 'address');
+		expect(ctx.getInitial()).toEqual({ address: { zip: '2' } });
+		expect(ctx.getData()).toEqual({ address: { zip: '1' } });
+		expect(setInitial).toHaveBeenCalledWith('set-initial', {
+			diff: { hasDiff: true, diffs: { 'address/zip': ['1', '2'] } },
+			scope: 'address',
+		});
+	});
+
+	it('applies returned data and reports thrown errors', async () => {
+		let fail = false;
+		const ctx = makeFHContext({
+			data: { name: ' hen ' },
+			submit: async () => {
+				if (fail) {
+					throw new Error('offline');
+				}
+				return jsonResponse({ id: 1, name: 'hen' });
+			},
+			applyResponseData: true,
+		});
+		const events: string[] = [];
+		ctx.events.addListener('submit-success', (evt) => events.push(evt));
+		ctx.events.addListener('submit-error', (evt, { error }) =>
+			events.push(error.message)
+		);
+
+		await ctx.create();
+		expect(ctx.getData()).toEqual({ id: 1, name: 'hen' });
+		expect(ctx.getInitial()).toEqual({ id: 1, name: 'hen' });
+
+		fail = true;
+		await expect(ctx.create()).rejects.toThrow('offline');
+		expect(events).toEqual(['submit-success', 'offline']);
+	});
+});
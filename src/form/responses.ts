@@ -0,0 +1,145 @@
+import { joinScopes } from './core';
+
+export type ParsedSubmitResponse = {
+	ok: boolean;
+	/** Response body (parsed if JSON). */
+	data?: any;
+	/** Field errors keyed by path relative to the submitted scope. */
+	errors?: Record<string, string>;
+	/** Form-level error message. */
+	message?: string;
+};
+
+/**
+ * Interprets the result of a submit handler. Parsers must not consume the body of
+ * the given `Response` (use `response.clone()`).
+ */
+export type SubmitResponseParser = (
+	response: any
+) => Promise<ParsedSubmitResponse>;
+
+/**
+ * Converts a field reference from a server response into a form path:
+ *
+ * - JSON pointers: `/items/0/price` or `#/items/0/price`
+ * - dotted paths: `items.0.price` or `items[0].price`
+ * - form paths (`items[0]/price`) are returned as is
+ *
+ * Numeric segments become indices of the preceding segment (`items[0]/price`).
+ */
+export const toFieldPath = (ref: string) => {
+	let segments: string[];
+	if (ref.startsWith('#/') || ref.startsWith('/')) {
+		segments = ref
+			.replace(/^#/, '')
+			.slice(1)
+			.split('/')
+			.map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+	} else if (ref.includes('/')) {
+		return joinScopes(...ref.split('/'));
+	} else {
+		segments = ref.split('.');
+	}
+
+	const parts: string[] = [];
+	for (const seg of segments) {
+		if (seg.match(/^\d+$/) && parts.length > 0) {
+			parts[parts.length - 1] += `[${seg}]`;
+		} else {
+			parts.push(seg);
+		}
+	}
+	return joinScopes(...parts);
+};
+
+const toMessage = (value: any): string | undefined => {
+	if (typeof value === 'string') {
+		return value;
+	} else if (Array.isArray(value)) {
+		return toMessage(value[0]);
+	} else if (value && typeof value === 'object') {
+		return toMessage(
+			value.detail ?? value.message ?? value.reason ?? value.title
+		);
+	}
+	return undefined;
+};
+
+/**
+ * Extracts field errors and a message from an error body. Supports:
+ *
+ * - `{ errors: { "path/to/field": "msg" | ["msg", ...] } }`
+ * - RFC 7807 problem details (`title`, `detail`) with `invalid-params`
+ *   (`[{ name, reason }]`) or `errors` (`[{ pointer, detail }]`) extensions
+ */
+export const parseErrorBody = (
+	body: any
+): Pick<ParsedSubmitResponse, 'errors' | 'message'> => {
+	if (!body || typeof body !== 'object') {
+		return { message: typeof body === 'string' ? body : undefined };
+	}
+
+	const errors: Record<string, string> = {};
+	const addError = (ref: any, value: any) => {
+		const message = toMessage(value);
+		if (typeof ref === 'string' && ref !== '' && message) {
+			errors[toFieldPath(ref)] = message;
+		}
+	};
+
+	if (Array.isArray(body['invalid-params'])) {
+		for (const param of body['invalid-params']) {
+			addError(param?.name, param);
+		}
+	}
+	if (Array.isArray(body.errors)) {
+		for (const error of body.errors) {
+			addError(
+				error?.pointer ?? error?.field ?? error?.name ?? error?.path,
+				error
+			);
+		}
+	} else if (body.errors && typeof body.errors === 'object') {
+		for (const [ref, value] of Object.entries(body.errors)) {
+			addError(ref, value);
+		}
+	}
+
+	return {
+		errors: Object.keys(errors).length > 0 ? errors : undefined,
+		message: toMessage(body.detail ?? body.title ?? body.message),
+	};
+};
+
+/**
+ * Parses `Response` objects: JSON bodies (including `application/problem+json`)
+ * are parsed, and non-2xx responses are mapped through `parseErrorBody()`. Any
+ * other value (or any value where `Response` isn't defined) is treated as
+ * successful data.
+ */
+export const defaultResponseParser: SubmitResponseParser = async (response) => {
+	// `Response` isn't defined everywhere (e.g. jsdom)
+	if (typeof Response === 'undefined' || !(response instanceof Response)) {
+		return { ok: true, data: response };
+	}
+
+	let data: any = undefined;
+	if (response.headers.get('content-type')?.match(/[/+]json\b/)) {
+		try {
+			data = await response.clone().json();
+		} catch (e) {
+			// empty or malformed body
+		}
+	}
+	if (response.ok) {
+		return { ok: true, data };
+	}
+
+	const { errors, message } = parseErrorBody(data);
+	return {
+		ok: false,
+		data,
+		errors,
+		message: message ?? (response.statusText || `HTTP ${response.status}`),
+	};
+};
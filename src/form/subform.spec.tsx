@@ -0,0 +1,143 @@
+/**
+ * @jest-environment jsdom
+ */
+import { fireEvent, render } from '@testing-library/react';
+import React from 'react';
+import { FHinput, FHSubForm } from './components';
+import { makeFHContext, makeFHSubContext } from './context';
+import type { FHSubContextProps } from './context';
+import { FHContext } from './core';
+import { fhRules } from './validation';
+
+describe('form/subform', () => {
+	const makeParent = () =>
+		makeFHContext({
+			data: {
+				name: 'hen',
+				address: { line1: 'a', line2: 'b' },
+			},
+			validators: { name: fhRules.required() },
+		});
+
+	it('edits a scope of the parent independently', () => {
+		const parent = makeParent();
+		const parentUpdates = jest.fn();
+		parent.events.addListener('updated', parentUpdates);
+		const sub = makeFHSubContext(parent, 'address', {
+			validators: { line1: fhRules.required() },
+		});
+
+		parent.setControlValue('name', '');
+		expect(sub.getData()).toEqual({ line1: 'a', line2: 'b' });
+		expect(sub.validate().errors).toEqual(0);
+
+		sub.setControlValue('line1', '');
+		expect(sub.validate().errors).toEqual(1);
+		expect(parent.getData().address).toEqual({ line1: 'a', line2: 'b' });
+		expect(parentUpdates).toHaveBeenCalledTimes(1);
+
+		sub.reset();
+		expect(sub.getData()).toEqual({ line1: 'a', line2: 'b' });
+		expect(sub.isDirty()).toBe(false);
+	});
+
+	it('commits data to the parent', () => {
+		const parent = makeParent();
+		const sub = makeFHSubContext(parent, 'address');
+		sub.setControlValue('line1', 'c');
+		sub.updateControlValue({ scope: '', name: 'line2', value: undefined });
+
+		sub.commit();
+		expect(parent.getData().address).toEqual({ line1: 'c' });
+		expect(parent.isDirty('address')).toBe(true);
+		expect(sub.isDirty()).toBe(false);
+		expect(sub.getInitial()).toEqual({ line1: 'c' });
+	});
+
+	it('follows the parent while it has no uncommitted edits', () => {
+		const parent = makeParent();
+		const sub = makeFHSubContext(parent, 'address');
+
+		parent.setControlValue('line1', 'x', 'address');
+		expect(sub.getData()).toEqual({ line1: 'x', line2: 'b' });
+		parent.setInitial({ address: { line1: 'x' } });
+		expect(sub.getInitial()).toEqual({ line1: 'x' });
+		expect(sub.getData()).toEqual({ line1: 'x', line2: 'b' });
+		parent.reset();
+		expect(sub.getData()).toEqual({ line1: 'x' });
+		expect(sub.isDirty()).toBe(false);
+
+		sub.setControlValue('line2', 'c');
+		parent.setControlValue('line1', 'y', 'address');
+		expect(sub.getData()).toEqual({ line1: 'x', line2: 'c' });
+
+		sub.reset();
+		expect(sub.getData()).toEqual({ line1: 'y' });
+		sub.commit();
+		expect(parent.getData().address).toEqual({ line1: 'y' });
+		parent.setControlValue('line1', 'z', 'address');
+		expect(sub.getData()).toEqual({ line1: 'z' });
+	});
+
+	it('commits only its own changes', () => {
+		const parent = makeFHContext({
+			data: { address: { line1: 'a', zip: '1', old: 'x' } },
+		});
+		const sub = makeFHSubContext(parent, 'address');
+		sub.setControlValue('line1', 'b');
+		sub.updateControlValue({ scope: '', name: 'old' });
+		parent.setControlValue('zip', '2', 'address');
+		parent.setControlValue('added', 'y', 'address');
+
+		sub.commit();
+		expect(parent.getData().address).toEqual({
+			line1: 'b',
+			zip: '2',
+			added: 'y',
+		});
+		expect(sub.getData()).toEqual(parent.getData().address);
+		expect(sub.isDirty()).toBe(false);
+	});
+
+	it('submits through the parent handler and propagates on success', async () => {
+		const submit = jest.fn(async (data: any, params: any) => ({} as any));
+		const parent = makeFHContext({
+			data: { address: { line1: 'a' } },
+			submit,
+		});
+		const sub = makeFHSubContext(parent, 'address', { propagate: true });
+		sub.setControlValue('line1', 'c');
+
+		await sub.update('.', { action: '/address' });
+		expect(submit).toHaveBeenCalledWith(
+			{ line1: 'c' },
+			{ action: '/address', method: 'PUT' }
+		);
+		expect(parent.getData().address).toEqual({ line1: 'c' });
+	});
+
+	it('scopes controls inside the partition to the sub-form', () => {
+		const parent = makeParent();
+		let sub: FHSubContextProps | undefined;
+		const { container } = render(
+			<FHContext.Provider value={parent}>
+				<form>
+					<div data-fhscope="address">
+						<FHSubForm scope="address">
+							{(ctx) => {
+								sub = ctx;
+								return <FHinput name="line1" />;
+							}}
+						</FHSubForm>
+					</div>
+				</form>
+			</FHContext.Provider>
+		);
+
+		fireEvent.change(container.querySelector('input') as HTMLInputElement, {
+			target: { value: 'z' },
+		});
+		expect(sub?.getData()).toEqual({ line1: 'z', line2: 'b' });
+		expect(parent.getData().address.line1).toEqual('a');
+	});
+});
@@ -0,0 +1,115 @@
+import {
+	defaultSubmitHandler,
+	ENCTYPE_MULTIPART,
+	ENCTYPE_URLENCODED,
+	serializeFormData,
+} from './core';
+
+describe('form/submit', () => {
+	const data = {
+		name: 'hen',
+		tags: ['a', 'b'],
+		address: { zip: '12345', primary: true },
+		items: [{ sku: 'x', qty: 1 }],
+		note: null,
+		skipped: undefined,
+	};
+
+	it('flattens nested data into path keys', () => {
+		const params = serializeFormData(data, new URLSearchParams());
+		expect([...params.entries()]).toEqual([
+			['name', 'hen'],
+			['tags', 'a'],
+			['tags', 'b'],
+			['address/zip', '12345'],
+			['address/primary', 'true'],
+			['items[0]/sku', 'x'],
+			['items[0]/qty', '1'],
+			['note', ''],
+		]);
+		expect([
+			...serializeFormData(
+				{ address: data.address, items: data.items },
+				new URLSearchParams(),
+				'brackets'
+			).keys(),
+		]).toEqual([
+			'address[zip]',
+			'address[primary]',
+			'items[0][sku]',
+			'items[0][qty]',
+		]);
+	});
+
+	it('submits multipart bodies with files and no content-type', async () => {
+		const fetchMock = jest
+			.spyOn(global, 'fetch')
+			.mockResolvedValue(new Response('{}'));
+		const avatar = new File(['img'], 'avatar.png', { type: 'image/png' });
+
+		await defaultSubmitHandler(
+			{ ...data, avatar },
+			{ action: '/profile', encType: ENCTYPE_MULTIPART }
+		);
+		const [, init] = fetchMock.mock.calls[0];
+		expect(init?.headers).toEqual({});
+		const body = init?.body as FormData;
+		expect(body.get('address/zip')).toEqual('12345');
+		expect((body.get('avatar') as File).name).toEqual('avatar.png');
+
+		await defaultSubmitHandler(data, { encType: ENCTYPE_URLENCODED });
+		expect(fetchMock.mock.calls[1][1]?.headers).toEqual({
+			'content-type': ENCTYPE_URLENCODED,
+		});
+		fetchMock.mockRestore();
+	});
+
+	it('reports upload progress', async () => {
+		const progress: any[] = [];
+		const sent: any[] = [];
+		class FakeXHR {
+			upload: any = {};
+			status = 201;
+			statusText = 'Created';
+			response = new Blob(['{"id":1}']);
+			responseType = '';
+			onload = () => {};
+			open(method: string, url: string) {
+				sent.push(method, url);
+			}
+			setRequestHeader() {}
+			getAllResponseHeaders() {
+				return 'content-type: application/json\r\n';
+			}
+			send(body: any) {
+				sent.push(body);
+				this.upload.onprogress({
+					loaded: 5,
+					total: 10,
+					lengthComputable: true,
+				});
+				this.onload();
+			}
+		}
+		(global as any).XMLHttpRequest = FakeXHR;
+		try {
+			const response = await defaultSubmitHandler(
+				{ avatar: new File(['img'], 'avatar.png') },
+				{
+					action: '/upload',
+					encType: ENCTYPE_MULTIPART,
+					onUploadProgress: (p) => progress.push(p),
+				}
+			);
+			expect(response.status).toEqual(201);
+			expect(response.headers.get('content-type')).toEqual(
+				'application/json'
+			);
+			expect(progress).toEqual([{ loaded: 5, total: 10 }]);
+			expect(sent.slice(0, 2)).toEqual(['POST', '/upload']);
+			expect((sent[2] as FormData).get('avatar')).toBeInstanceOf(File);
+		} finally {
+			delete (global as any).XMLHttpRequest;
+		}
+	});
+});
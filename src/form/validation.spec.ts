@@ -0,0 +1,155 @@
+import { makeFHContext } from './context';
+import { FHValidationError, fhRules } from './validation';
+
+describe('form/validation', () => {
+	const makeCtx = () =>
+		makeFHContext({
+			data: { name: 'hen', items: [{ price: 1 }, { price: 2 }] },
+			validators: {
+				name: fhRules.required(),
+				'items[*]/price': (v) => (v < 0 ? 'negative' : undefined),
+				'address/zip': { validate: fhRules.required(), on: 'blur' },
+			},
+			submit: async () => new Response('{}'),
+		});
+
+	it('validates incrementally on change', () => {
+		const ctx = makeCtx();
+		let validated = 0;
+		ctx.events.addListener('validated', () => validated++);
+
+		ctx.setControlValue('name', '');
+		expect(ctx.getValidationResults().errorMap).toEqual({
+			name: { error: 'required' },
+		});
+		ctx.setControlValue('price', -1, 'items[1]');
+		expect(ctx.getValidationResults('items').errorMap).toEqual({
+			'items[1]/price': { error: 'negative' },
+		});
+		ctx.setControlValue('name', 'hen');
+		expect(ctx.getValidationResults().errors).toEqual(1);
+		expect(validated).toEqual(3);
+	});
+
+	it('diffs scoped changes by their full path', () => {
+		const ctx = makeCtx();
+		const paths: string[] = [];
+		ctx.events.addListener('updated', (_evt: string, diff) =>
+			paths.push(...Object.keys(diff.diffs))
+		);
+
+		// diffs of the whole form were prefixed with the scope again, e.g.
+		// `address/address`, so scoped rules never matched
+		ctx.setControlValue('line1', '123 street', 'address');
+		ctx.updateControlValue({ scope: 'address', name: 'line1' });
+		// `reset()` replaces form data, which must stay the target of updates
+		ctx.reset();
+		ctx.updateControlValue({ scope: '', name: 'name', value: '' });
+		expect(paths).toEqual(['address', 'address/line1', 'name']);
+		expect(ctx.getData().name).toEqual('');
+		expect(ctx.getValidationResults().errorMap).toEqual({
+			name: { error: 'required' },
+		});
+	});
+
+	it('runs blur rules only on blur', () => {
+		const ctx = makeCtx();
+		ctx.setControlValue('line1', '123 street', 'address');
+		expect(ctx.getValidationResults().errors).toEqual(0);
+		ctx.blur('address', 'zip');
+		expect(ctx.getValidationResults().errorMap).toEqual({
+			'address/zip': { error: 'required' },
+		});
+	});
+
+	it('blocks submission while errors exist', async () => {
+		const ctx = makeCtx();
+		await expect(ctx.create()).rejects.toBeInstanceOf(FHValidationError);
+		await expect(ctx.create('items')).resolves.toBeInstanceOf(Response);
+		await expect(
+			ctx.create('.', { ignoreErrors: true })
+		).resolves.toBeTruthy();
+	});
+});
+
+describe('form/validation async', () => {
+	const makeCtx = (taken: string[], checked: string[]) =>
+		makeFHContext({
+			data: { username: '', coupon: '' },
+			validators: {
+				username: [
+					fhRules.required(),
+					{
+						validateAsync: async (value, data, path, signal) => {
+							checked.push(value);
+							await new Promise((r) => setTimeout(r, 50));
+							return !signal.aborted && taken.includes(value)
+								? 'taken'
+								: undefined;
+						},
+						debounceMs: 100,
+					},
+				],
+				coupon: {
+					validateAsync: async (value) =>
+						value === 'EXPIRED' ? 'expired' : undefined,
+					on: 'blur',
+				},
+			},
+			submit: async () => new Response('{}'),
+		});
+
+	afterEach(() => jest.useRealTimers());
+
+	it('debounces and cancels stale checks', async () => {
+		jest.useFakeTimers();
+		const checked: string[] = [];
+		const ctx = makeCtx(['hen'], checked);
+		const validating: (number | undefined)[] = [];
+		ctx.events.addListener('validated', (evt, { validationResults }) =>
+			validating.push(validationResults.validating)
+		);
+
+		ctx.setControlValue('username', 'he');
+		await jest.advanceTimersByTimeAsync(50);
+		ctx.setControlValue('username', 'hen');
+		expect(ctx.getValidationResults().errorMap).toEqual({
+			username: { error: undefined, validating: true },
+		});
+		await jest.advanceTimersByTimeAsync(200);
+
+		expect(checked).toEqual(['hen']);
+		expect(ctx.getValidationResults().errorMap).toEqual({
+			username: { error: 'taken' },
+		});
+		expect(validating).toEqual([1, 0]);
+
+		// sync errors take precedence; no server check is made
+		ctx.setControlValue('username', '');
+		await jest.advanceTimersByTimeAsync(200);
+		expect(checked).toEqual(['hen']);
+		expect(ctx.getValidationResults().errorMap).toEqual({
+			username: { error: 'required' },
+		});
+	});
+
+	it('runs blur rules and awaits pending checks before submitting', async () => {
+		const checked: string[] = [];
+		const ctx = makeCtx(['hen'], checked);
+		ctx.setControlValue('coupon', 'EXPIRED');
+		expect(ctx.getValidationResults().errors).toEqual(0);
+		ctx.blur('.', 'coupon');
+		expect(await ctx.validateAsync('coupon')).toMatchObject({
+			errors: 1,
+			errorMap: { coupon: { error: 'expired' } },
+		});
+
+		ctx.setControlValue('coupon', '');
+		ctx.setControlValue('username', 'hen');
+		await expect(ctx.create()).rejects.toBeInstanceOf(FHValidationError);
+		expect(checked).toEqual(['hen']);
+
+		ctx.setControlValue('username', 'ren');
+		await expect(ctx.create()).resolves.toBeInstanceOf(Response);
+	});
+});
@@ -0,0 +1,609 @@
+import type {
+	DiffResults,
+	DiffValidator,
+	FHData,
+	ValidationResult,
+	ValidationResultMap,
+} from './core';
+import { joinScopes, peekDataByPath } from './core';
+
+/**
+ * Validates a single value. Return an error message if invalid.
+ */
+export type FieldValidator = (
+	value: any,
+	data: FHData,
+	path: string
+) => string | undefined | void;
+
+export type FieldRule = {
+	validate: FieldValidator;
+	/**
+	 * - `change` (default): runs on every diff touching the path and on blur
+	 * - `blur`: only runs on blur (and explicit `validate()`)
+	 */
+	on?: 'change' | 'blur';
+};
+
+/**
+ * Validates a single value against a server or other async source. Return an
+ * error message if invalid. `signal` is aborted once the result is stale (the
+ * value changed again, or the form was reset).
+ */
+export type AsyncFieldValidator = (
+	value: any,
+	data: FHData,
+	path: string,
+	signal: AbortSignal
+) => Promise<string | undefined | void>;
+
+export type AsyncFieldRule = {
+	validateAsync: AsyncFieldValidator;
+	/**
+	 * - `change` (default): runs (debounced) on every diff touching the path;
+	 *   pending runs are flushed on blur
+	 * - `blur`: only runs on blur (and explicit `validate()`)
+	 */
+	on?: 'change' | 'blur';
+	/** Delay after the last change before running. Defaults to 300. */
+	debounceMs?: number;
+};
+
+export type AnyFieldRule = FieldValidator | FieldRule | AsyncFieldRule;
+
+/**
+ * Maps a `/`-delimited path (same syntax as `getDataByPath`) to 1+ rules. Paths
+ * support two wildcards:
+ *
+ * - `*` as a whole segment matches any key of an object
+ * - `name[*]` matches any index of an array (e.g. `items[*]/price`)
+ */
+export type ValidationSchema = Record<string, AnyFieldRule | AnyFieldRule[]>;
+
+export class FHValidationError extends Error {
+	results: ValidationResultMap;
+
+	constructor(results: ValidationResultMap) {
+		super(`form has ${results.errors} validation error(s)`);
+		this.results = results;
+	}
+}
+
+/** Returns the files (or `FHFileMeta`) of a file input value. */
+const getFiles = (value: any): { name: string; size: number; type: string }[] =>
+	(value instanceof Array ? value : [value]).filter(
+		(f) => f && typeof f === 'object' && typeof f.size === 'number'
+	);
+
+/**
+ * True if `file` matches an `accept` attribute value (e.g. `image/*,.pdf`).
+ */
+export const fileMatchesAccept = (
+	file: { name: string; type: string },
+	accept: string
+) =>
+	accept
+		.split(',')
+		.map((token) => token.trim().toLowerCase())
+		.some((token) =>
+			token.startsWith('.')
+				? file.name.toLowerCase().endsWith(token)
+				: token.endsWith('/*')
+				? file.type.toLowerCase().startsWith(token.slice(0, -1))
+				: file.type.toLowerCase() === token
+		);
+
+/** Built-in rule factories. */
+export const fhRules = {
+	required:
+		(message = 'required'): FieldValidator =>
+		(value) =>
+			value === undefined ||
+			value === null ||
+			value === '' ||
+			(value instanceof Array && value.length === 0)
+				? message
+				: undefined,
+	pattern:
+		(re: RegExp, message = 'invalid format'): FieldValidator =>
+		(value) =>
+			typeof value === 'string' && value !== '' && !re.test(value)
+				? message
+				: undefined,
+	minLength:
+		(
+			min: number,
+			message = `must be at least ${min} characters`
+		): FieldValidator =>
+		(value) =>
+			typeof value === 'string' && value.length < min
+				? message
+				: undefined,
+	maxLength:
+		(
+			max: number,
+			message = `must be at most ${max} characters`
+		): FieldValidator =>
+		(value) =>
+			typeof value === 'string' && value.length > max
+				? message
+				: undefined,
+	/** File inputs: each file must be at most `maxBytes`. */
+	maxFileSize:
+		(
+			maxBytes: number,
+			message = `files must be at most ${maxBytes} bytes`
+		): FieldValidator =>
+		(value) =>
+			getFiles(value).some((f) => f.size > maxBytes)
+				? message
+				: undefined,
+	/** File inputs: each file must match `accept` (e.g. `image/*,.pdf`). */
+	fileType:
+		(accept: string, message = 'unsupported file type'): FieldValidator =>
+		(value) =>
+			getFiles(value).some((f) => !fileMatchesAccept(f, accept))
+				? message
+				: undefined,
+	/** File inputs: at most `max` files. */
+	maxFiles:
+		(max: number, message = `at most ${max} files`): FieldValidator =>
+		(value) =>
+			getFiles(value).length > max ? message : undefined,
+};
+
+const normalizePath = (path: string) => joinScopes(...path.split('/'));
+
+const escapeRegExp = (s: string) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles a path pattern (see `ValidationSchema` for wildcards) into a regular
+ * expression matching concrete paths.
+ */
+export const patternToRegExp = (pattern: string) =>
+	new RegExp(
+		'^' +
+			pattern
+				.split('/')
+				.map((seg) =>
+					seg === '*'
+						? '[^/]+'
+						: escapeRegExp(seg).replace(/\\\[\*\\\]$/, '\\[\\d+\\]')
+				)
+				.join('/') +
+			'$'
+	);
+
+/**
+ * True if one path is the same as, or an ancestor of, the other.
+ */
+export const pathsIntersect = (a: string, b: string) => {
+	if (a === '' || b === '') {
+		return true;
+	}
+	const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+	return (
+		short === long ||
+		long.startsWith(short + '/') ||
+		long.startsWith(short + '[')
+	);
+};
+
+/**
+ * Resolves wildcards in `pattern` against `data` and returns all concrete paths.
+ * Non-wildcard patterns always resolve to themselves.
+ */
+export const expandPath = (pattern: string, data: FHData): string[] => {
+	let current: [string, any][] = [['', data]];
+	for (const seg of pattern.split('/')) {
+		const next: [string, any][] = [];
+		const arrMatch = seg.match(/^(.+)\[\*\]$/);
+		for (const [path, ptr] of current) {
+			if (seg === '*') {
+				if (ptr && typeof ptr === 'object' && !(ptr instanceof Array)) {
+					for (const key of Object.keys(ptr)) {
+						next.push([joinScopes(path, key), ptr[key]]);
+					}
+				}
+			} else if (arrMatch) {
+				const arr = ptr?.[arrMatch[1]];
+				if (arr instanceof Array) {
+					arr.forEach((v, i) =>
+						next.push([joinScopes(path, `${arrMatch[1]}[${i}]`), v])
+					);
+				}
+			} else {
+				next.push([
+					joinScopes(path, seg),
+					ptr === undefined || ptr === null
+						? undefined
+						: peekDataByPath(ptr, seg),
+				]);
+			}
+		}
+		current = next;
+	}
+	return current.map(([path]) => path);
+};
+
+type RuleMode = 'change' | 'blur';
+
+type RegisteredRule = (FieldRule | AsyncFieldRule) & {
+	path: string;
+	re: RegExp;
+};
+
+type PendingRun = {
+	controller: AbortController;
+	timer?: ReturnType<typeof setTimeout>;
+	/** Resolves once the run settles or is cancelled. */
+	done: Promise<void>;
+};
+
+const isAsyncRule = (
+	rule: RegisteredRule
+): rule is AsyncFieldRule & RegisteredRule => 'validateAsync' in rule;
+
+/**
+ * Keeps per-path rules and the current error state of a form. Errors from
+ * `change` and `blur` rules are tracked separately so that a passing change
+ * doesn't clear an error only a blur can resolve.
+ *
+ * Async rules only run on paths without sync errors. Each path has at most one
+ * run per mode; starting a new one aborts the previous one. `onAsyncChange` is
+ * called with the path whenever a run settles. Rules don't run on paths for which
+ * `isSkipped` returns true (e.g. hidden fields), and their errors are dropped.
+ */
+export const makeValidationEngine = (
+	schema: ValidationSchema = {},
+	{
+		onAsyncChange,
+		isSkipped,
+	}: {
+		onAsyncChange?: (path: string) => void;
+		isSkipped?: (path: string, data: FHData) => boolean;
+	} = {}
+) => {
+	let rules: RegisteredRule[] = [];
+	const changeErrors: Record<string, string> = {};
+	const blurErrors: Record<string, string> = {};
+	const asyncErrors: Record<RuleMode, Record<string, string>> = {
+		change: {},
+		blur: {},
+	};
+	const pending: Record<RuleMode, Record<string, PendingRun>> = {
+		change: {},
+		blur: {},
+	};
+	/** Errors reported by the server; kept until the path changes. */
+	let serverErrors: Record<string, string> = {};
+
+	const addRule = (path: string, rule: AnyFieldRule) => {
+		const npath = normalizePath(path);
+		const entry: RegisteredRule = {
+			...(typeof rule === 'function' ? { validate: rule } : rule),
+			path: npath,
+			re: patternToRegExp(npath),
+		};
+		rules.push(entry);
+		return () => {
+			rules = rules.filter((r) => r !== entry);
+		};
+	};
+
+	for (const [path, pathRules] of Object.entries(schema)) {
+		for (const rule of pathRules instanceof Array
+			? pathRules
+			: [pathRules]) {
+			addRule(path, rule);
+		}
+	}
+
+	const getResults = (scope = '.'): ValidationResultMap => {
+		const nscope = normalizePath(scope);
+		const errorMap: Record<string, ValidationResult> = {};
+		let errors = 0;
+		let validating = 0;
+		for (const path of Object.keys({
+			...changeErrors,
+			...blurErrors,
+			...asyncErrors.change,
+			...asyncErrors.blur,
+			...pending.change,
+			...pending.blur,
+			...serverErrors,
+		})) {
+			if (nscope !== '' && !pathsIntersect(nscope, path)) {
+				continue;
+			}
+			const result: ValidationResult = {
+				error:
+					changeErrors[path] ??
+					blurErrors[path] ??
+					asyncErrors.change[path] ??
+					asyncErrors.blur[path] ??
+					serverErrors[path],
+			};
+			if (result.error) {
+				errors++;
+			}
+			if (pending.change[path] || pending.blur[path]) {
+				result.validating = true;
+				validating++;
+			}
+			errorMap[path] = result;
+		}
+		return { errors, validating, errorMap };
+	};
+
+	const cancelAsync = (path: string, mode: RuleMode) => {
+		const run = pending[mode][path];
+		if (run) {
+			clearTimeout(run.timer);
+			run.controller.abort();
+			delete pending[mode][path];
+		}
+	};
+
+	/**
+	 * Starts the async rules of `mode` matching `path` after `delay` ms, replacing
+	 * any pending run.
+	 */
+	const startAsync = (
+		path: string,
+		mode: RuleMode,
+		data: FHData,
+		delay?: number
+	) => {
+		cancelAsync(path, mode);
+		delete asyncErrors[mode][path];
+		const asyncRules = rules.filter(
+			(rule): rule is AsyncFieldRule & RegisteredRule =>
+				isAsyncRule(rule) &&
+				(rule.on ?? 'change') === mode &&
+				rule.re.test(path)
+		);
+		if (asyncRules.length === 0) {
+			return;
+		}
+
+		const controller = new AbortController();
+		const run = { controller } as PendingRun;
+		const execute = async () => {
+			run.timer = undefined;
+			const value = peekDataByPath(data, path);
+			let error: string | undefined;
+			try {
+				const errors = await Promise.all(
+					asyncRules.map((rule) =>
+						rule.validateAsync(value, data, path, controller.signal)
+					)
+				);
+				error = errors.find((e) => e) || undefined;
+			} catch (e) {
+				// a failed check (e.g. network error) doesn't invalidate the value
+			}
+			if (controller.signal.aborted) {
+				return;
+			}
+			if (error) {
+				asyncErrors[mode][path] = error;
+			}
+			delete pending[mode][path];
+			onAsyncChange?.(path);
+		};
+		run.done = new Promise<void>((resolve) => {
+			controller.signal.addEventListener('abort', () => resolve());
+			const start = () => execute().then(resolve);
+			const ms =
+				delay ??
+				Math.max(...asyncRules.map((rule) => rule.debounceMs ?? 300));
+			if (ms > 0) {
+				run.timer = setTimeout(start, ms);
+			} else {
+				start();
+			}
+		});
+		pending[mode][path] = run;
+	};
+
+	const getConcretePaths = (data: FHData) => {
+		const paths: Record<string, boolean> = {};
+		for (const rule of rules) {
+			for (const path of expandPath(rule.path, data)) {
+				if (!isSkipped?.(path, data)) {
+					paths[path] = true;
+				}
+			}
+		}
+		return paths;
+	};
+
+	/**
+	 * Re-runs rules on every concrete path intersecting one of `targets`. Errors on
+	 * paths that no longer resolve are dropped. Async rules are started according
+	 * to `timing`:
+	 *
+	 * - `debounce`: after their `debounceMs`
+	 * - `flush`: immediately for `blur` rules; `change` rules only if pending
+	 * - `now`: immediately
+	 */
+	const run = (
+		targets: string[],
+		data: FHData,
+		modes: Record<RuleMode, boolean>,
+		timing: 'debounce' | 'flush' | 'now'
+	) => {
+		const concrete = getConcretePaths(data);
+		const affected: Record<string, boolean> = {};
+		for (const path of [
+			...Object.keys(concrete),
+			...Object.keys(changeErrors),
+			...Object.keys(blurErrors),
+			...Object.keys(asyncErrors.change),
+			...Object.keys(asyncErrors.blur),
+			...Object.keys(pending.change),
+			...Object.keys(pending.blur),
+		]) {
+			if (targets.some((t) => pathsIntersect(t, path))) {
+				affected[path] = true;
+			}
+		}
+
+		for (const path of Object.keys(affected)) {
+			if (!concrete[path]) {
+				delete changeErrors[path];
+				delete blurErrors[path];
+				for (const mode of ['change', 'blur'] as const) {
+					cancelAsync(path, mode);
+					delete asyncErrors[mode][path];
+				}
+				continue;
+			}
+
+			const value = peekDataByPath(data, path);
+			for (const mode of ['change', 'blur'] as const) {
+				if (!modes[mode]) {
+					continue;
+				}
+				const errors = mode === 'change' ? changeErrors : blurErrors;
+				delete errors[path];
+				for (const rule of rules) {
+					if (
+						isAsyncRule(rule) ||
+						(rule.on ?? 'change') !== mode ||
+						!rule.re.test(path)
+					) {
+						continue;
+					}
+					const error = rule.validate(value, data, path);
+					if (error) {
+						errors[path] = error;
+						break;
+					}
+				}
+			}
+
+			const hasSyncError = !!(changeErrors[path] ?? blurErrors[path]);
+			for (const mode of ['change', 'blur'] as const) {
+				if (!modes[mode]) {
+					continue;
+				}
+				if (hasSyncError) {
+					cancelAsync(path, mode);
+					delete asyncErrors[mode][path];
+				} else if (timing === 'debounce') {
+					startAsync(path, mode, data);
+				} else if (
+					timing === 'now' ||
+					mode === 'blur' ||
+					pending[mode][path]
+				) {
+					startAsync(path, mode, data, 0);
+				}
+			}
+		}
+	};
+
+	const validateDiff: DiffValidator = (diff: DiffResults, data: FHData) => {
+		if (diff.hasDiff) {
+			const targets = Object.keys(diff.diffs).map(normalizePath);
+			for (const path of Object.keys(serverErrors)) {
+				if (targets.some((t) => pathsIntersect(t, path))) {
+					delete serverErrors[path];
+				}
+			}
+			run(targets, data, { change: true, blur: false }, 'debounce');
+		}
+		return getResults();
+	};
+
+	return {
+		addRule,
+		getResults,
+		validateDiff,
+		/**
+		 * Re-runs `change` rules intersecting `paths` without a diff (e.g. when
+		 * fields were hidden or shown).
+		 */
+		revalidate: (paths: string[], data: FHData) => {
+			run(
+				paths.map(normalizePath),
+				data,
+				{ change: true, blur: false },
+				'debounce'
+			);
+			return getResults();
+		},
+		/** Runs all rules intersecting `path`. */
+		validateBlur: (path: string, data: FHData) => {
+			run(
+				[normalizePath(path)],
+				data,
+				{ change: true, blur: true },
+				'flush'
+			);
+			return getResults();
+		},
+		/**
+		 * Runs all rules under `scope` and returns the errors for `scope`. Async rules
+		 * are started immediately; see `settled()`.
+		 */
+		validate: (data: FHData, scope = '.') => {
+			run(
+				[normalizePath(scope)],
+				data,
+				{ change: true, blur: true },
+				'now'
+			);
+			return getResults(scope);
+		},
+		/**
+		 * Replaces the server errors under `scope` with `errors` (keyed by path
+		 * relative to `scope`).
+		 */
+		setServerErrors: (errors: Record<string, string>, scope = '.') => {
+			const nscope = normalizePath(scope);
+			for (const path of Object.keys(serverErrors)) {
+				if (nscope === '' || pathsIntersect(nscope, path)) {
+					delete serverErrors[path];
+				}
+			}
+			for (const [path, error] of Object.entries(errors)) {
+				serverErrors[joinScopes(nscope, ...path.split('/'))] = error;
+			}
+			return getResults(scope);
+		},
+		/** Resolves with the results of `scope` once no async rules are pending. */
+		settled: async (scope = '.') => {
+			const nscope = normalizePath(scope);
+			const running = () =>
+				(['change', 'blur'] as const).flatMap((mode) =>
+					Object.entries(pending[mode])
+						.filter(
+							([path]) =>
+								nscope === '' || pathsIntersect(nscope, path)
+						)
+						.map(([, run]) => run.done)
+				);
+			for (let runs = running(); runs.length > 0; runs = running()) {
+				await Promise.all(runs);
+			}
+			return getResults(scope);
+		},
+		clear: () => {
+			for (const path of Object.keys(changeErrors))
+				delete changeErrors[path];
+			for (const path of Object.keys(blurErrors)) delete blurErrors[path];
+			for (const mode of ['change', 'blur'] as const) {
+				for (const path of Object.keys(pending[mode])) {
+					cancelAsync(path, mode);
+				}
+				asyncErrors[mode] = {};
+			}
+			serverErrors = {};
+		},
+	};
+};
+
+export type ValidationEngine = ReturnType<typeof makeValidationEngine>;
@@ -0,0 +1,165 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render } from '@testing-library/react';
+import React from 'react';
+import { FHinput } from './components';
+import { makeFHContext } from './context';
+import {
+	FHContext,
+	getDataProps,
+	inputChanged,
+	selectChanged,
+	textareaChanged,
+} from './core';
+import { fhValueTypes, makeValueTypeRegistry } from './values';
+
+const makeControl = <Tag extends 'input' | 'select' | 'textarea'>(
+	tag: Tag,
+	attrs: Record<string, string | boolean | undefined>,
+	value?: string
+) => {
+	const el = document.createElement(tag);
+	for (const [key, val] of Object.entries(attrs)) {
+		if (val !== undefined) {
+			el.setAttribute(key, String(val));
+		}
+	}
+	if (value !== undefined) {
+		(el as HTMLInputElement).value = value;
+	}
+	return el;
+};
+
+describe('form/values', () => {
+	it('parses and formats built-in types', () => {
+		expect(fhValueTypes.number.parse('4.5')).toEqual(4.5);
+		expect(fhValueTypes.number.parse('')).toBeUndefined();
+		expect(fhValueTypes.number.parse('4x')).toEqual('4x');
+		expect(fhValueTypes.int.parse('4.5')).toEqual(4);
+		expect(fhValueTypes.boolean.parse('false')).toBe(false);
+		expect(fhValueTypes.date.parse('2024-01-02')).toEqual(
+			'2024-01-02T00:00:00.000Z'
+		);
+		expect(fhValueTypes.date.format('2024-01-02T00:00:00.000Z')).toEqual(
+			'2024-01-02'
+		);
+		expect(
+			fhValueTypes.date.format(new Date(Date.UTC(2024, 0, 2)))
+		).toEqual('2024-01-02');
+		expect(fhValueTypes.json.parse('{"a":[1]}')).toEqual({ a: [1] });
+		expect(fhValueTypes.json.format({ a: [1] })).toEqual('{"a":[1]}');
+		expect(fhValueTypes.number.format(undefined)).toEqual('');
+	});
+
+	it('resolves types by name and path', () => {
+		const cents = {
+			parse: (raw: string) => Math.round(Number(raw) * 100),
+			format: (value: number) => (value / 100).toFixed(2),
+		};
+		const registry = makeValueTypeRegistry(
+			{ 'items[*]/qty': 'int', 'items[*]/price': 'cents' },
+			{ cents }
+		);
+		expect(registry.parse('items[1]/qty', '2')).toEqual(2);
+		expect(registry.parse('items[1]/price', '1.5')).toEqual(150);
+		expect(registry.format('items[1]/price', 150)).toEqual('1.50');
+		expect(registry.parse('items[1]/price', '1.5', 'number')).toEqual(1.5);
+		expect(registry.parse('name', '2')).toEqual('2');
+
+		const remove = registry.add('name', 'number');
+		expect(registry.parse('name', '2')).toEqual(2);
+		remove();
+		expect(registry.parse('name', '2')).toEqual('2');
+		expect(() => registry.parse('name', '2', 'nope')).toThrow(
+			'unknown value type: nope'
+		);
+	});
+
+	it('stores parsed values from standard controls', () => {
+		const ctx = makeFHContext({
+			data: { qty: 1 },
+			valueTypes: { 'meta/*': 'json' },
+		});
+		const updated = jest.fn();
+		ctx.events.addListener('updated', updated);
+
+		const qty = makeControl('input', {
+			name: 'qty',
+			...getDataProps({ type: 'number' }),
+		});
+		qty.value = '1.0';
+		inputChanged(qty, ctx);
+		expect(updated).not.toHaveBeenCalled();
+
+		qty.value = '2';
+		inputChanged(qty, ctx);
+		expect(updated.mock.calls[0][1]).toEqual(
+			expect.objectContaining({ diffs: { qty: [1, 2] } })
+		);
+
+		const tags = makeControl('input', {
+			type: 'checkbox',
+			name: 'sizes',
+			multiple: '',
+			'data-fhtype': 'int',
+		});
+		tags.value = '8';
+		tags.checked = true;
+		inputChanged(tags, ctx);
+		tags.checked = false;
+		tags.value = '10';
+		tags.checked = true;
+		inputChanged(tags, ctx);
+
+		const textarea = makeControl('textarea', { name: 'tags' });
+		textarea.value = '["a"]';
+		const form = document.createElement('form');
+		const scope = document.createElement('div');
+		scope.setAttribute('data-fhscope', 'meta');
+		scope.appendChild(textarea);
+		form.appendChild(scope);
+		textareaChanged(textarea, ctx);
+
+		const select = makeControl('select', {
+			name: 'flags',
+			multiple: '',
+			'data-fhtype': 'boolean',
+		}) as HTMLSelectElement;
+		for (const value of ['true', 'false']) {
+			const opt = document.createElement('option');
+			opt.value = value;
+			opt.selected = true;
+			select.appendChild(opt);
+		}
+		selectChanged(select, ctx);
+
+		expect(ctx.getData()).toEqual({
+			qty: 2,
+			sizes: [8, 10],
+			meta: { tags: ['a'] },
+			flags: [true, false],
+		});
+
+		qty.value = '';
+		inputChanged(qty, ctx);
+		expect(ctx.getData().qty).toBeUndefined();
+	});
+
+	it('formats displayed values of typed controls', () => {
+		const ctx = makeFHContext({});
+		const { container } = render(
+			<FHContext.Provider value={ctx}>
+				<FHinput
+					name="due"
+					type="date"
+					defaultValue="2024-01-02T00:00:00.000Z"
+					{...getDataProps({ type: 'date' })}
+				/>
+			</FHContext.Provider>
+		);
+		expect(
+			(container.querySelector('input') as HTMLInputElement).value
+		).toEqual('2024-01-02');
+	});
+});
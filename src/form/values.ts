@@ -0,0 +1,159 @@
+import { joinScopes } from './core';
+import { patternToRegExp } from './validation';
+
+/**
+ * Converts between the string value of a control and the value stored in form
+ * data. `parse` returns `undefined` to remove the value (e.g. an empty number
+ * input).
+ */
+export type FHValueType<Value = any> = {
+	parse: (raw: string) => Value | undefined;
+	format: (value: Value | undefined) => string;
+};
+
+/** A built-in or custom type name, or a type. */
+export type FHValueTypeRef = string | FHValueType;
+
+const toText = (value: any) =>
+	value === undefined || value === null ? '' : String(value);
+
+const toDate = (value: any) => {
+	const date = value instanceof Date ? value : new Date(value);
+	return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Built-in types. Unparseable input is kept as is, so it isn't lost while being
+ * typed and rules can report it.
+ *
+ * - `number`, `int`: empty input removes the value; `int` truncates decimals
+ * - `boolean`: `'true'`/`'false'` (e.g. radio or select values)
+ * - `date`: stores an ISO string (form data stays JSON-compatible) and displays
+ *   `YYYY-MM-DD` as expected by `<input type="date"/>`; format also accepts
+ *   `Date` objects and timestamps
+ * - `json`: `JSON.parse`/`JSON.stringify`
+ */
+export const fhValueTypes: Record<
+	'string' | 'number' | 'int' | 'boolean' | 'date' | 'json',
+	FHValueType
+> = {
+	string: {
+		parse: (raw) => raw,
+		format: toText,
+	},
+	number: {
+		parse: (raw) => {
+			if (raw.trim() === '') {
+				return undefined;
+			}
+			const num = Number(raw);
+			return isNaN(num) ? raw : num;
+		},
+		format: toText,
+	},
+	int: {
+		parse: (raw) => {
+			const num = fhValueTypes.number.parse(raw);
+			return typeof num === 'number' ? Math.trunc(num) : num;
+		},
+		format: toText,
+	},
+	boolean: {
+		parse: (raw) => (raw === 'true' ? true : raw === 'false' ? false : raw),
+		format: toText,
+	},
+	date: {
+		parse: (raw) => {
+			if (raw.trim() === '') {
+				return undefined;
+			}
+			return toDate(raw)?.toISOString() ?? raw;
+		},
+		format: (value) => {
+			if (value === undefined || value === null || value === '') {
+				return '';
+			}
+			return toDate(value)?.toISOString().slice(0, 10) ?? String(value);
+		},
+	},
+	json: {
+		parse: (raw) => {
+			if (raw.trim() === '') {
+				return undefined;
+			}
+			try {
+				return JSON.parse(raw);
+			} catch (e) {
+				return raw;
+			}
+		},
+		format: (value) => (value === undefined ? '' : JSON.stringify(value)),
+	},
+};
+
+type RegisteredType = { path: string; re: RegExp; type: FHValueTypeRef };
+
+/**
+ * Resolves the value type of a path. A type name given by the control
+ * (`data-fhtype`) takes precedence over types registered per path (same
+ * wildcards as `ValidationSchema`; the last matching registration wins). Names
+ * are looked up in `customTypes`, then in `fhValueTypes`. Paths without a type
+ * keep raw strings.
+ */
+export const makeValueTypeRegistry = (
+	types: Record<string, FHValueTypeRef> = {},
+	customTypes: Record<string, FHValueType> = {}
+) => {
+	let registered: RegisteredType[] = [];
+
+	const lookup = (ref: FHValueTypeRef): FHValueType => {
+		if (typeof ref !== 'string') {
+			return ref;
+		}
+		const type =
+			customTypes[ref] ?? fhValueTypes[ref as keyof typeof fhValueTypes];
+		if (!type) {
+			throw new Error(`unknown value type: ${ref}`);
+		}
+		return type;
+	};
+
+	const add = (path: string, type: FHValueTypeRef) => {
+		const npath = joinScopes(...path.split('/'));
+		const entry = { path: npath, re: patternToRegExp(npath), type };
+		registered.push(entry);
+		return () => {
+			registered = registered.filter((t) => t !== entry);
+		};
+	};
+
+	for (const [path, type] of Object.entries(types)) {
+		add(path, type);
+	}
+
+	const resolve = (path: string, typeName?: string) => {
+		if (typeName) {
+			return lookup(typeName);
+		}
+		const npath = joinScopes(...path.split('/'));
+		for (let i = registered.length - 1; i >= 0; i--) {
+			if (registered[i].re.test(npath)) {
+				return lookup(registered[i].type);
+			}
+		}
+		return undefined;
+	};
+
+	return {
+		add,
+		resolve,
+		parse: (path: string, raw: string, typeName?: string) => {
+			const type = resolve(path, typeName);
+			return type ? type.parse(raw) : raw;
+		},
+		format: (path: string, value: any, typeName?: string): string => {
+			const type = resolve(path, typeName);
+			return type ? type.format(value) : toText(value);
+		},
+	};
+};
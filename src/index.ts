@@ -1,3 +1,4 @@
 export * from './utils';
 export * from './form';
 export * from './state';
+export * from './persistence';
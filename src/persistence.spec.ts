@@ -0,0 +1,108 @@
+/**
+ * @jest-environment jsdom
+ */
+import { makeFHContext } from './form';
+import { makeMemoryStorage, makePersister } from './persistence';
+import { ActionStoreImpl, standardOpsReducer } from './state';
+
+describe('persistence', () => {
+	it('persists and rehydrates an action store', async () => {
+		const storage = makeMemoryStorage();
+		const persist = { key: 'store', storage, debounceMs: 0 };
+		const store = new ActionStoreImpl<any>(
+			{ a: 1, b: 2 },
+			{ reducers: [standardOpsReducer], persist }
+		);
+		store.dispatchStdOps({ set: { a: 10 } });
+
+		const rehydrated = new ActionStoreImpl<any>(
+			{ a: 1, b: 2, c: 3 },
+			{ reducers: [standardOpsReducer], persist }
+		);
+		expect(rehydrated.getState()).toEqual({ a: 10, b: 2, c: 3 });
+
+		const reset = jest.fn();
+		rehydrated.listenFor('state-reset', reset);
+		await Promise.resolve();
+		expect(reset).toHaveBeenCalledWith('state-reset', {
+			state: { a: 10, b: 2, c: 3 },
+		});
+	});
+
+	it('debounces writes and filters paths', () => {
+		jest.useFakeTimers();
+		const storage = makeMemoryStorage();
+		const persister = makePersister({
+			key: 'k',
+			storage,
+			include: ['a'],
+			exclude: ['a/secret'],
+		});
+		persister.save({ a: { x: 1, secret: 's' }, b: 2 });
+		persister.save({ a: { x: 2, secret: 's' }, b: 2 });
+		expect(storage.getItem('k')).toEqual(null);
+		jest.runAllTimers();
+		expect(JSON.parse(storage.getItem('k') as string)).toEqual({
+			version: 1,
+			data: { a: { x: 2 } },
+		});
+		jest.useRealTimers();
+	});
+
+	it('flushes scheduled writes when the page is hidden', () => {
+		const storage = makeMemoryStorage();
+		const persister = makePersister({ key: 'k', storage });
+		persister.save({ a: 1 });
+		window.dispatchEvent(new Event('pagehide'));
+		expect(JSON.parse(storage.getItem('k') as string)).toEqual({
+			version: 1,
+			data: { a: 1 },
+		});
+
+		persister.save({ a: 2 });
+		Object.defineProperty(document, 'visibilityState', {
+			configurable: true,
+			get: () => 'hidden',
+		});
+		document.dispatchEvent(new Event('visibilitychange'));
+		delete (document as any).visibilityState;
+		expect(JSON.parse(storage.getItem('k') as string).data).toEqual({
+			a: 2,
+		});
+	});
+
+	it('migrates older versions', () => {
+		const storage = makeMemoryStorage({
+			k: JSON.stringify({ version: 1, data: { name: 'hen' } }),
+		});
+		expect(makePersister({ key: 'k', storage, version: 2 }).load()).toEqual(
+			undefined
+		);
+		expect(
+			makePersister({
+				key: 'k',
+				storage,
+				version: 2,
+				migrate: (data) => ({ firstName: data.name }),
+			}).load()
+		).toEqual({ firstName: 'hen' });
+	});
+
+	it('persists form drafts', async () => {
+		const storage = makeMemoryStorage();
+		const persist = { key: 'form', storage, debounceMs: 0 };
+		const ctx = makeFHContext({ data: { name: 'hen' }, persist });
+		ctx.setControlValue('name', 'jen');
+
+		const restored = makeFHContext({ data: { name: 'hen' }, persist });
+		expect(restored.getData()).toEqual({ name: 'jen' });
+		expect(restored.getInitial()).toEqual({ name: 'hen' });
+		const reset = jest.fn();
+		restored.events.addListener('reset', reset);
+		await Promise.resolve();
+		expect(reset).toHaveBeenCalledWith('reset', { name: 'jen' });
+
+		restored.clearPersisted();
+		expect(storage.getItem('form')).toEqual(null);
+	});
+});
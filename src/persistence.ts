@@ -0,0 +1,232 @@
+import { jsonClone, peekDataByPath, setDataByPath } from './form/core';
+import { isBlob } from './utils';
+
+/**
+ * Synchronous key-value storage. `localStorage` and `sessionStorage` satisfy this.
+ */
+export type StorageAdapter = {
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+};
+
+export type PersistOptions = {
+	/** Storage key. */
+	key: string;
+	/** Defaults to `makeMemoryStorage()`. */
+	storage?: StorageAdapter;
+	/**
+	 * Schema version of persisted data. Defaults to 1. It's stored next to the
+	 * data rather than in `key`, so data of any earlier version is found under
+	 * the same key and can be passed to `migrate` (and old versions don't pile up
+	 * in storage).
+	 */
+	version?: number;
+	/**
+	 * Called when persisted data has a different version. Return the data in the
+	 * current schema. If not given, data of other versions is discarded.
+	 */
+	migrate?: (data: any, fromVersion: number) => any;
+	/**
+	 * Delay before writing. Writes are coalesced, and flushed when the page is
+	 * hidden or unloaded. Defaults to 250.
+	 */
+	debounceMs?: number;
+	/** If given, only these `/`-delimited paths are persisted. */
+	include?: string[];
+	/** Paths excluded from persistence. */
+	exclude?: string[];
+};
+
+type PersistEnvelope = {
+	version: number;
+	data: any;
+};
+
+/**
+ * In-memory storage, mainly for tests and server-side rendering.
+ */
+export const makeMemoryStorage = (
+	initial: Record<string, string> = {}
+): StorageAdapter & { dump: () => Record<string, string> } => {
+	const items: Record<string, string> = { ...initial };
+	return {
+		getItem: (key) => items[key] ?? null,
+		setItem: (key, value) => {
+			items[key] = value;
+		},
+		removeItem: (key) => {
+			delete items[key];
+		},
+		dump: () => ({ ...items }),
+	};
+};
+
+/**
+ * Returns `localStorage` or `sessionStorage`, falling back to memory storage
+ * where they're unavailable.
+ */
+export const getWebStorage = (kind: 'local' | 'session'): StorageAdapter => {
+	try {
+		const storage =
+			kind === 'local' ? window.localStorage : window.sessionStorage;
+		if (storage) {
+			return storage;
+		}
+	} catch (e) {
+		// no window, or storage is disabled
+	}
+	return makeMemoryStorage();
+};
+
+/**
+ * Recursively merges `src` into a copy of `dest`. Arrays and primitives in `src`
+ * replace those in `dest`.
+ */
+export const mergeData = (dest: any, src: any): any => {
+	if (
+		!src ||
+		typeof src !== 'object' ||
+		src instanceof Array ||
+		!dest ||
+		typeof dest !== 'object' ||
+		dest instanceof Array
+	) {
+		return src === undefined ? dest : src;
+	}
+
+	const merged = { ...dest };
+	for (const [key, value] of Object.entries(src)) {
+		merged[key] = mergeData(dest[key], value);
+	}
+	return merged;
+};
+
+const filterPaths = (data: any, include?: string[], exclude?: string[]) => {
+	let filtered = jsonClone(data);
+	if (include) {
+		filtered = {};
+		for (const path of include) {
+			const value = peekDataByPath(data, path);
+			if (value !== undefined) {
+				setDataByPath(filtered, path, jsonClone(value));
+			}
+		}
+	}
+	for (const path of exclude ?? []) {
+		if (peekDataByPath(filtered, path) !== undefined) {
+			setDataByPath(filtered, path, undefined);
+		}
+	}
+	return filtered;
+};
+
+/**
+ * Reads and (debounced) writes versioned, path-filtered data to a storage adapter.
+ */
+export const makePersister = ({
+	key,
+	storage = makeMemoryStorage(),
+	version = 1,
+	migrate,
+	debounceMs = 250,
+	include,
+	exclude,
+}: PersistOptions) => {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let pending: { data: any } | undefined;
+
+	// pending writes would otherwise be lost when the page goes away. Only bound
+	// while a write is scheduled, so persisters don't need disposing.
+	const onVisibilityChange = () => {
+		if (document.visibilityState === 'hidden') {
+			flush();
+		}
+	};
+	const bindPageHide = (bind: boolean) => {
+		if (typeof window === 'undefined') {
+			return;
+		}
+		const method = bind ? 'addEventListener' : 'removeEventListener';
+		window[method]('pagehide', flush);
+		window[method]('beforeunload', flush);
+		document[method]('visibilitychange', onVisibilityChange);
+	};
+
+	const cancel = () => {
+		if (timer) {
+			clearTimeout(timer);
+			timer = undefined;
+			bindPageHide(false);
+		}
+	};
+
+	const flush = () => {
+		cancel();
+		if (!pending) {
+			return;
+		}
+		const envelope: PersistEnvelope = {
+			version,
+			data: filterPaths(pending.data, include, exclude),
+		};
+		pending = undefined;
+		// files can't be persisted
+		storage.setItem(
+			key,
+			JSON.stringify(envelope, (k, value) =>
+				isBlob(value) ? undefined : value
+			)
+		);
+	};
+
+	return {
+		/**
+		 * @return Persisted data in the current schema, or `undefined` if there's
+		 *   nothing (usable) stored.
+		 */
+		load: (): any => {
+			const raw = storage.getItem(key);
+			if (!raw) {
+				return undefined;
+			}
+			try {
+				const envelope: PersistEnvelope = JSON.parse(raw);
+				if (envelope.version === version) {
+					return filterPaths(envelope.data, include, exclude);
+				}
+				if (migrate) {
+					return filterPaths(
+						migrate(envelope.data, envelope.version),
+						include,
+						exclude
+					);
+				}
+			} catch (e) {
+				// corrupt entry; treat as empty
+			}
+			return undefined;
+		},
+		/** Schedules a write of `data`. */
+		save: (data: any) => {
+			pending = { data };
+			if (debounceMs <= 0) {
+				flush();
+				return;
+			}
+			cancel();
+			timer = setTimeout(flush, debounceMs);
+			bindPageHide(true);
+		},
+		/** Writes any scheduled data immediately. */
+		flush,
+		/** Cancels scheduled writes and removes persisted data. */
+		clear: () => {
+			cancel();
+			pending = undefined;
+			storage.removeItem(key);
+		},
+	};
+};
+
+export type Persister = ReturnType<typeof makePersister>;
@@ -0,0 +1,74 @@
+import { ActionStoreImpl, standardOpsReducer } from './core';
+
+describe('action-store/async', () => {
+	const makeStore = () => {
+		const store = new ActionStoreImpl<any>(
+			{ loading: false, items: [] },
+			{ reducers: [standardOpsReducer] }
+		);
+		const events: string[] = [];
+		store.listenFor('action', (evt, { action }) =>
+			events.push(action?.type as string)
+		);
+		return { store, events };
+	};
+
+	it('emits pending and fulfilled with patches', async () => {
+		const { store, events } = makeStore();
+		let loadingWhilePending = false;
+		store.listenFor('action:load:pending', (evt, { state }) => {
+			loadingWhilePending = state.loading;
+		});
+
+		const res = await store.dispatchAsync('load', async () => ['a', 'b'], {
+			patches: {
+				pending: { set: { loading: true } },
+				fulfilled: (items) => ({ set: { loading: false, items } }),
+			},
+		});
+
+		expect(res).toEqual({ status: 'fulfilled', value: ['a', 'b'] });
+		expect(loadingWhilePending).toEqual(true);
+		expect(store.getState()).toEqual({ loading: false, items: ['a', 'b'] });
+		expect(events).toEqual(['load:pending', 'load:fulfilled']);
+	});
+
+	it('emits rejected on error', async () => {
+		const { store, events } = makeStore();
+		const res = await store.dispatchAsync('load', async () => {
+			throw new Error('nope');
+		});
+		expect(res).toMatchObject({ status: 'rejected', aborted: false });
+		expect(events).toEqual(['load:pending', 'load:rejected']);
+	});
+
+	it("doesn't report reducer errors as rejected", async () => {
+		const { store, events } = makeStore();
+		store.prependReducer((action, state) => {
+			if (action.type === 'load:fulfilled') {
+				throw new Error('reducer');
+			}
+			return state;
+		});
+		await expect(
+			store.dispatchAsync('load', async () => 1)
+		).rejects.toThrow('reducer');
+		expect(events).toEqual(['load:pending']);
+	});
+
+	it('cancels via AbortSignal', async () => {
+		const { store, events } = makeStore();
+		const controller = new AbortController();
+		const pending = store.dispatchAsync(
+			'load',
+			() => new Promise(() => {}),
+			{ signal: controller.signal }
+		);
+		controller.abort();
+		expect(await pending).toMatchObject({
+			status: 'rejected',
+			aborted: true,
+		});
+		expect(events).toEqual(['load:pending', 'load:rejected']);
+	});
+});
@@ -1,69 +1,257 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import type { ListenerOptions } from '../utils';
 import { makeEventBus } from '../utils';
-import { getDataByPath, jsonClone } from '../form';
+import {
+	computeArrayDiff,
+	getDataByPath,
+	joinScopes,
+	jsonClone,
+	makeScopeCollector,
+	peekDataByPath,
+	setDataByPath,
+} from '../form';
+import type { PersistOptions, Persister } from '../persistence';
+import { makePersister, mergeData } from '../persistence';
 import type {
 	Action,
 	ActionEventHandler,
 	ActionStore,
 	ActionStoreBuilder,
+	ActionStoreEventMap,
 	ActionStoreEvents,
+	ActionStoreHistory,
+	ActionStoreHistoryOptions,
+	AsyncActionMeta,
+	AsyncActionOptions,
+	AsyncActionPhase,
+	AsyncActionResult,
+	AsyncEffect,
 	StandardOpsActionMeta,
 	StateReducer,
 	StateTransientProps,
+	StoreMiddleware,
 } from './types';
 export * from './types';
 
 export class ActionStoreImpl<State = any, ActionMeta = any, ActionType = string>
-	implements ActionStoreBuilder<State, ActionMeta>
+	implements
+		ActionStoreBuilder<State, ActionMeta, ActionType>,
+		ActionStoreHistory<State>
 {
-	events = makeEventBus<ActionStoreEvents>();
+	events = makeEventBus<ActionStoreEventMap<State, ActionMeta, ActionType>>();
 	state: State & StateTransientProps;
-	reducers: StateReducer<State, ActionMeta, string>[] = [];
+	reducers: StateReducer<State, ActionMeta, ActionType>[] = [];
+	middleware: StoreMiddleware<State, ActionMeta, ActionType>[] = [];
 	id: string;
+	/** Set if constructed with `persist`. */
+	persister?: Persister;
+	protected asyncSeq = 0;
+	protected history?: {
+		limit: number;
+		past: State[];
+		future: State[];
+		/** Nesting level of `transaction()` calls. */
+		depth: number;
+		/** State before the first change of the current transaction. */
+		pending?: State;
+	};
 
 	constructor(
 		state: State,
-		opts?: { reducers?: StateReducer<State, ActionMeta, string>[] }
+		opts?: {
+			reducers?: StateReducer<State, ActionMeta, ActionType>[];
+			middleware?: StoreMiddleware<State, ActionMeta, ActionType>[];
+			/** Enables undo/redo. */
+			history?: boolean | ActionStoreHistoryOptions;
+			/**
+			 * Rehydrates state from storage (merged over `state`) and writes it
+			 * back after each change. `state-reset` is emitted for the rehydrated
+			 * state in a microtask, once listeners could be added.
+			 */
+			persist?: PersistOptions;
+		}
 	) {
 		this.id = new Date().toISOString();
 		this.state = jsonClone(state);
 		if (opts?.reducers) {
 			this.reducers = [...opts.reducers];
 		}
+		if (opts?.middleware) {
+			this.middleware = [...opts.middleware];
+		}
+		if (opts?.history) {
+			this.history = {
+				limit:
+					(opts.history === true ? undefined : opts.history.limit) ??
+					100,
+				past: [],
+				future: [],
+				depth: 0,
+			};
+		}
+		if (opts?.persist) {
+			this.persister = makePersister(opts.persist);
+			const saved = this.persister.load();
+			if (saved !== undefined) {
+				this.state = this.applyReducers(
+					{ type: 'state-reset' },
+					mergeData(this.state, saved)
+				);
+				// deferred, so listeners added right after construction receive it
+				queueMicrotask(() =>
+					this.events.emit('state-reset', { state: this.state })
+				);
+			}
+			const save = () => this.persister?.save(this.state);
+			this.events.addListener('state-reset', save);
+			this.events.addListener('action', save);
+		}
 	}
 
 	resetState(state: State): State {
-		this.state = this.applyReducers({ type: 'state-reset' }, this.state);
+		this.state = this.applyReducers(
+			{ type: 'state-reset' },
+			jsonClone(state)
+		);
+		this.clearHistory();
+		this.events.emit('state-reset', { state: this.state });
+		return this.state;
+	}
+
+	/**
+	 * Like `resetState()`, but keeps undo/redo entries and doesn't record one
+	 * (e.g. for state synced from another store).
+	 */
+	replaceState(state: State): State {
+		this.state = this.applyReducers(
+			{ type: 'state-reset' },
+			jsonClone(state)
+		);
 		this.events.emit('state-reset', { state: this.state });
 		return this.state;
 	}
 
 	updateState(p: Partial<State>): State {
+		const prev = this.state;
 		this.state = this.applyReducers(
 			{ type: 'state-reset' },
 			{ ...this.state, ...p }
 		);
+		this.recordHistory(prev);
 		this.events.emit('state-reset', { state: this.state });
 		return this.state;
 	}
 
+	get canUndo() {
+		return !!this.history?.past.length;
+	}
+
+	get canRedo() {
+		return !!this.history?.future.length;
+	}
+
+	undo(): State {
+		const history = this.history;
+		if (history?.past.length) {
+			history.future.push(this.state);
+			this.state = history.past.pop() as State & StateTransientProps;
+			this.cascadeEmit(
+				'action:history:undo',
+				{ type: 'history:undo' } as Action<ActionMeta, ActionType>,
+				this.state
+			);
+		}
+		return this.state;
+	}
+
+	redo(): State {
+		const history = this.history;
+		if (history?.future.length) {
+			history.past.push(this.state);
+			this.state = history.future.pop() as State & StateTransientProps;
+			this.cascadeEmit(
+				'action:history:redo',
+				{ type: 'history:redo' } as Action<ActionMeta, ActionType>,
+				this.state
+			);
+		}
+		return this.state;
+	}
+
+	transaction(fn: () => void) {
+		const history = this.history;
+		if (!history) {
+			fn();
+			return;
+		}
+
+		history.depth++;
+		try {
+			fn();
+		} finally {
+			history.depth--;
+			if (history.depth === 0 && history.pending !== undefined) {
+				const prev = history.pending;
+				history.pending = undefined;
+				this.recordHistory(prev);
+			}
+		}
+	}
+
+	clearHistory() {
+		if (this.history) {
+			this.history.past = [];
+			this.history.future = [];
+		}
+	}
+
+	/**
+	 * Pushes the state prior to a change onto the undo stack. Within a
+	 * transaction, only the state before its first change is kept.
+	 */
+	protected recordHistory(prev: State) {
+		const history = this.history;
+		if (!history) {
+			return;
+		}
+		if (history.depth > 0) {
+			if (history.pending === undefined) {
+				history.pending = prev;
+			}
+			return;
+		}
+
+		history.past.push(prev);
+		if (history.past.length > history.limit) {
+			history.past.shift();
+		}
+		history.future = [];
+	}
+
 	getState(): State {
 		return { ...this.state };
 	}
 
-	prependReducer(reducer: StateReducer<State, ActionMeta, string>) {
+	prependReducer(reducer: StateReducer<State, ActionMeta, ActionType>) {
 		this.reducers.unshift(reducer);
 		return;
 	}
 
-	appendReducer(reducer: StateReducer<State, ActionMeta, string>) {
+	appendReducer(reducer: StateReducer<State, ActionMeta, ActionType>) {
 		this.reducers.push(reducer);
 		return;
 	}
 
+	use(middleware: StoreMiddleware<State, ActionMeta, ActionType>) {
+		this.middleware.push(middleware);
+		return () => {
+			this.middleware = this.middleware.filter((m) => m !== middleware);
+		};
+	}
+
 	protected cascadeEmit(
 		event: string,
-		action: Action<ActionMeta>,
+		action: Action<ActionMeta, ActionType>,
 		state: State,
 		meta?: Record<string, any>
 	) {
@@ -71,11 +259,14 @@ export class ActionStoreImpl<State = any, ActionMeta = any, ActionType = string>
 		while (levels.length > 0) {
 			const evt = levels.join(':');
 			levels.pop();
-			this.events.emit(evt as ActionStoreEvents, {
+			const propagated = this.events.emit(evt as ActionStoreEvents, {
 				action,
-				state,
+				state: state as State & StateTransientProps,
 				meta,
 			});
+			if (!propagated) {
+				break;
+			}
 		}
 	}
 
@@ -93,11 +284,53 @@ export class ActionStoreImpl<State = any, ActionMeta = any, ActionType = string>
 		return nstate;
 	}
 
-	dispatch(action: Action<ActionMeta, string>): void {
+	/**
+	 * Passes `action` through the middleware chain and, unless a middleware
+	 * swallows it, applies reducers and emits events.
+	 */
+	dispatch(action: Action<ActionMeta, ActionType>): void {
+		const chain = [...this.middleware];
+		const run = (index: number, action: Action<ActionMeta, ActionType>) => {
+			const middleware = chain[index];
+			if (!middleware) {
+				this.reduce(action);
+				return;
+			}
+			middleware(action, {
+				getState: () => this.getState(),
+				dispatch: (action) => this.dispatch(action),
+				next: (next = action) => run(index + 1, next),
+			});
+		};
+		run(0, action);
+	}
+
+	protected reduce(action: Action<ActionMeta, ActionType>): void {
 		const ostate = jsonClone<State & StateTransientProps>(this.state);
-		const nstate = this.applyReducers(action, ostate);
+		let nstate = this.applyReducers(action, ostate);
 
-		if (nstate !== ostate) {
+		const { asyncPhase, patch } = action as Partial<AsyncActionMeta>;
+		if (asyncPhase && patch) {
+			const patched = standardOpsReducer(
+				{ ...patch, type: 'std-ops' },
+				nstate
+			);
+			if (patched) {
+				nstate = {
+					...patched,
+					__innerEvents: [
+						...(nstate.__innerEvents ?? []),
+						...(patched.__innerEvents ?? []),
+					],
+					__changedKeys: [
+						...(nstate.__changedKeys ?? []),
+						...(patched.__changedKeys ?? []),
+					],
+				};
+			}
+		}
+
+		if (nstate !== ostate || asyncPhase) {
 			const innerEvents = nstate.__innerEvents ?? [];
 			const changedKeys = nstate.__changedKeys ?? [];
 			delete nstate.__innerEvents;
@@ -108,6 +341,14 @@ export class ActionStoreImpl<State = any, ActionMeta = any, ActionType = string>
 				changedKeys,
 			};
 
+			// commit before emitting so listeners reading `getState()` (e.g.
+			// `useSyncExternalStore`) see the new state
+			if (nstate !== ostate) {
+				const prev = this.state;
+				this.state = { ...nstate };
+				this.recordHistory(prev);
+			}
+
 			const sent: Record<string, boolean> = {};
 			innerEvents.forEach((ievt) => {
 				if (sent[ievt]) return;
@@ -120,7 +361,88 @@ export class ActionStoreImpl<State = any, ActionMeta = any, ActionType = string>
 			});
 
 			this.cascadeEmit(`action:${action.type}`, action, nstate, meta);
-			this.state = { ...nstate };
+		}
+	}
+
+	/**
+	 * Runs an async `effect`, dispatching `$type:pending` before it starts and
+	 * `$type:fulfilled` or `$type:rejected` once it settles. Each phase emits
+	 * `action:$type:$phase` (cascaded to `action:$type` and `action`).
+	 *
+	 * @return Rejects only if a phase dispatch throws (e.g. in a reducer); errors
+	 *   of `effect` resolve with `status: 'rejected'`.
+	 */
+	async dispatchAsync<Result = any>(
+		type: string,
+		effect: AsyncEffect<State, Result>,
+		{ signal, meta = {}, patches = {} }: AsyncActionOptions<Result> = {}
+	): Promise<AsyncActionResult<Result>> {
+		const requestId = `${this.id}:${++this.asyncSeq}`;
+		const controller = new AbortController();
+		const abort = () => controller.abort(signal?.reason);
+		signal?.addEventListener('abort', abort);
+
+		const dispatchPhase = (
+			asyncPhase: AsyncActionPhase,
+			phaseMeta: Partial<AsyncActionMeta>,
+			patch?: StandardOpsActionMeta
+		) => {
+			const action: Action<AsyncActionMeta & Record<string, any>> = {
+				...meta,
+				...phaseMeta,
+				type: `${type}:${asyncPhase}`,
+				asyncPhase,
+				requestId,
+				patch,
+			};
+			this.dispatch(action as Action<ActionMeta, ActionType>);
+		};
+
+		const aborted = new Promise<never>((_, reject) => {
+			controller.signal.addEventListener('abort', () =>
+				reject(controller.signal.reason)
+			);
+		});
+		// keeps an abort after settling from being reported as unhandled
+		aborted.catch(() => {});
+
+		try {
+			if (signal?.aborted) {
+				abort();
+			}
+			dispatchPhase('pending', {}, patches.pending);
+			let result: Result;
+			// only errors of the effect are reported as `rejected`
+			try {
+				result = await Promise.race([
+					effect({
+						signal: controller.signal,
+						getState: () => this.getState(),
+						dispatch: (action) => this.dispatch(action),
+					}),
+					aborted,
+				]);
+			} catch (error) {
+				const isAborted = controller.signal.aborted;
+				dispatchPhase(
+					'rejected',
+					{ error, aborted: isAborted },
+					typeof patches.rejected === 'function'
+						? patches.rejected(error)
+						: patches.rejected
+				);
+				return { status: 'rejected', error, aborted: isAborted };
+			}
+			dispatchPhase(
+				'fulfilled',
+				{ result },
+				typeof patches.fulfilled === 'function'
+					? patches.fulfilled(result)
+					: patches.fulfilled
+			);
+			return { status: 'fulfilled', value: result };
+		} finally {
+			signal?.removeEventListener('abort', abort);
 		}
 	}
 
@@ -131,11 +453,35 @@ export class ActionStoreImpl<State = any, ActionMeta = any, ActionType = string>
 		this.dispatch({ ...action, type: 'std-ops' } as any);
 	}
 
+	listenFor(
+		pattern: string,
+		handler: ActionEventHandler<State, ActionMeta, ActionType>,
+		options: ListenerOptions & { pattern: true }
+	): () => void;
+	listenFor<Event extends ActionStoreEvents>(
+		event: Event,
+		handler: ActionEventHandler<State, ActionMeta, ActionType, Event>,
+		options?: ListenerOptions
+	): () => void;
 	listenFor(
 		event: ActionStoreEvents,
-		handler: ActionEventHandler<State, ActionMeta>
-	): () => void {
-		return this.events.addListener(event, handler);
+		handler: ActionEventHandler<State, ActionMeta, ActionType>,
+		options?: ListenerOptions
+	) {
+		return options?.pattern
+			? this.events.addListener(event, handler, {
+					...options,
+					pattern: true,
+			  })
+			: this.events.addListener(event, handler, options);
+	}
+
+	/**
+	 * Call from a listener to skip the remaining listeners of the current event.
+	 * Cascaded `action:*` events also stop bubbling to their parent events.
+	 */
+	stopPropagation() {
+		this.events.stopPropagation();
 	}
 }
 
@@ -146,26 +492,28 @@ export function useActionStore<
 >(
 	store: ActionStore<State, ActionMeta, ActionType>,
 	{
-		eventScopes = ['reset-state', 'action'],
+		eventScopes = ['state-reset', 'action'],
 		handler,
 	}: {
-		eventScopes?: string[];
-		handler?: ActionEventHandler<State, ActionMeta>;
+		eventScopes?: ActionStoreEvents[];
+		handler?: ActionEventHandler<State, ActionMeta, ActionType>;
 	} = {}
 ) {
 	const [state, setState] = useState(store.getState());
+	const handlerRef = useRef(handler);
+	handlerRef.current = handler;
 	useEffect(() => {
 		const funcs: Function[] = [];
 		for (const eventScope of eventScopes) {
 			funcs.push(
 				store.listenFor(eventScope, (event, payload) => {
-					handler?.(event, payload as any);
+					handlerRef.current?.(event, payload as any);
 					setState(payload.state);
 				})
 			);
 		}
 		return () => funcs.forEach((f) => f());
-	});
+	}, [store, eventScopes.join('|')]);
 	return state;
 }
 
@@ -177,24 +525,136 @@ export function useActionStore<
  *
  * The following __innerEvents are generated:
  *
- * - `action:std-ops:change:$path:[...$changedKeys]` (1+)
+ * - `action:std-ops:change:$path:[...$changedKeys]` (1+; affected indices for array operations)
  * - `action:std-ops:change:$path`
  * - `action:std-ops:change`
  * - `action:std-ops`
  *
- * > Note that we don't cascade on `path` -- this is up to you.
+ * > Note that by default we don't cascade on `path` -- see `makeStandardOpsReducer()`.
  *
  * [See the unit tests for a working example](./standard-ops.test.ts)
  */
 export const standardOpsReducer: StateReducer<any, StandardOpsActionMeta> = (
 	action,
 	state
+) => stdOpsReduce(action, state, !!action.cascadePath);
+
+/**
+ * Returns a `standardOpsReducer` with configurable defaults:
+ *
+ * - `cascadePath`: a change at `a/b/c` also generates `std-ops:change:a/b`,
+ *   `std-ops:change:a` and wildcards `std-ops:change:a/b/*` and `std-ops:change:a/*`
+ *   (array segments like `items[3]` also generate `std-ops:change:items` and
+ *   `std-ops:change:items/*`). Can be overridden per action.
+ */
+export const makeStandardOpsReducer =
+	({ cascadePath = false }: { cascadePath?: boolean } = {}): StateReducer<
+		any,
+		StandardOpsActionMeta
+	> =>
+	(action, state) =>
+		stdOpsReduce(action, state, action.cascadePath ?? cascadePath);
+
+/**
+ * Returns `std-ops:change:$path` followed by, if `cascade` is set, events for
+ * each ancestor scope of `path` and wildcards for each parent, deepest first.
+ */
+const getPathEvents = (path: string, cascade: boolean) => {
+	const events = [`std-ops:change:${path}`];
+	const npath = joinScopes(...path.split('/'));
+	if (!cascade || !npath) {
+		return events;
+	}
+
+	const scopeColl = makeScopeCollector();
+	scopeColl.addScope(npath);
+	const parts = npath.split('/');
+	for (let i = 1; i <= parts.length; i++) {
+		const scope = parts.slice(0, i).join('/');
+		if (i < parts.length) {
+			scopeColl.addScope(scope + '/*');
+		}
+		// `items[3]` is also a change to `items`
+		if (scope.match(/\[\d+\]$/)) {
+			scopeColl.addScope(scope.replace(/\[\d+\]$/, ''));
+		}
+	}
+	for (const scope of scopeColl.getScopes()) {
+		if (scope !== npath) {
+			events.push(`std-ops:change:${scope}`);
+		}
+	}
+	return events;
+};
+
+const stdOpsArrayReduce = (
+	action: Action<StandardOpsActionMeta>,
+	state: any,
+	cascade: boolean
+) => {
+	const { path = '.', removeWhere, splice, insert, move, push } = action;
+	const cur = peekDataByPath(state, path) ?? [];
+	if (!(cur instanceof Array)) {
+		throw new Error(`std-ops array operation on non-array at '${path}'`);
+	}
+
+	let next = [...cur];
+	if (removeWhere) {
+		next = next.filter((item, index) => !removeWhere(item, index));
+	}
+	if (splice) {
+		const { start, deleteCount = 0, items = [] } = splice;
+		next.splice(start, deleteCount, ...items);
+	}
+	if (insert) {
+		next.splice(insert.index, 0, ...insert.items);
+	}
+	if (move && move.from >= 0 && move.from < next.length) {
+		next.splice(move.to, 0, ...next.splice(move.from, 1));
+	}
+	if (push) {
+		next.push(...push);
+	}
+
+	const diff = computeArrayDiff(cur, next);
+	if (!diff.hasDiff) {
+		return;
+	}
+
+	const nstate = { ...state };
+	setDataByPath(nstate, path, next);
+	const indices = Object.keys(diff.diffs).map((key) => key.slice(1, -1));
+	return {
+		...nstate,
+		__innerEvents: [
+			...indices.map((index) => `std-ops:change:${path}:${index}`),
+			...getPathEvents(path, cascade),
+			'std-ops:change',
+		],
+		__changedKeys: indices,
+	};
+};
+
+const stdOpsReduce = (
+	action: Action<StandardOpsActionMeta>,
+	state: any,
+	cascade: boolean
 ) => {
 	if (action.type !== 'std-ops') {
 		return;
 	}
 
 	const { path = '.', customOp, append, set, increment, remove } = action;
+	if (
+		action.removeWhere ||
+		action.splice ||
+		action.insert ||
+		action.move ||
+		action.push
+	) {
+		return stdOpsArrayReduce(action, state, cascade);
+	}
+
 	const __innerEvents: string[] = [];
 	const newKeys: Record<string, boolean> = {};
 	const curVals = { ...getDataByPath(state, path) };
@@ -221,7 +681,7 @@ export const standardOpsReducer: StateReducer<any, StandardOpsActionMeta> = (
 
 		nstate.__innerEvents = [
 			...__innerEvents,
-			`std-ops:change:${path}`,
+			...getPathEvents(path, cascade),
 			'std-ops:change',
 		];
 		nstate.__changedKeys = Object.keys(newKeys);
@@ -281,6 +741,6 @@ export const standardOpsReducer: StateReducer<any, StandardOpsActionMeta> = (
 			__innerEvents.push(`std-ops:change:${path}:${key}`);
 		}
 	});
-	__innerEvents.push(`std-ops:change:${path}`, 'std-ops:change');
+	__innerEvents.push(...getPathEvents(path, cascade), 'std-ops:change');
 	return { ...nstate, __innerEvents, __changedKeys: Object.keys(newKeys) };
 };
@@ -0,0 +1,75 @@
+import { ActionStoreImpl, standardOpsReducer } from './core';
+import { attachDevtools } from './devtools';
+
+describe('action-store/devtools', () => {
+	const makeStore = () =>
+		new ActionStoreImpl<any>({ a: 1 }, { reducers: [standardOpsReducer] });
+
+	it('records actions with meta, diff and timing', () => {
+		const store = makeStore();
+		const inspector = attachDevtools(store);
+		store.dispatchStdOps({ set: { a: 2 } });
+
+		const [entry] = inspector.getEntries();
+		expect(entry.action).toMatchObject({ type: 'std-ops' });
+		expect(entry.meta?.changedKeys).toEqual(['a']);
+		expect(entry.diff).toEqual({ hasDiff: true, diffs: { a: [1, 2] } });
+		expect(entry.duration).toBeGreaterThanOrEqual(0);
+	});
+
+	it('jumps to and replays recorded states', () => {
+		const store = makeStore();
+		const inspector = attachDevtools(store);
+		store.dispatchStdOps({ increment: { a: 1 } });
+		store.dispatchStdOps({ set: { b: 1 } });
+		store.dispatchStdOps({ set: { a: 5 } });
+
+		inspector.jumpTo(0);
+		expect(store.getState()).toEqual(inspector.getEntries()[0].stateAfter);
+		inspector.jumpTo(-1);
+		expect(store.getState()).toEqual({ a: 1 });
+
+		inspector.replay(1);
+		expect(store.getState()).toEqual({ a: 5, b: 1 });
+		expect(inspector.getEntries().length).toEqual(3);
+
+		inspector.detach();
+		store.dispatchStdOps({ set: { a: 6 } });
+		expect(inspector.getEntries().length).toEqual(3);
+	});
+
+	it('connects to the redux devtools extension', () => {
+		const sent: any[] = [];
+		let onMessage: (message: any) => void = () => {};
+		(global as any).window = {
+			__REDUX_DEVTOOLS_EXTENSION__: {
+				connect: () => ({
+					init: (state: any) => sent.push(['init', state]),
+					send: (action: any, state: any) =>
+						sent.push([action.type, state]),
+					subscribe: (fn: any) => {
+						onMessage = fn;
+					},
+				}),
+			},
+		};
+		try {
+			const store = makeStore();
+			attachDevtools(store, { reduxDevtools: true });
+			store.dispatchStdOps({ set: { a: 2 } });
+			expect(sent).toEqual([
+				['init', { a: 1 }],
+				['std-ops', { a: 2 }],
+			]);
+
+			onMessage({
+				type: 'DISPATCH',
+				payload: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ a: 1 }),
+			});
+			expect(store.getState()).toEqual({ a: 1 });
+		} finally {
+			delete (global as any).window;
+		}
+	});
+});
@@ -0,0 +1,206 @@
+/**
+ * Opt-in inspection for ActionStore: stores are only recorded once passed to
+ * `attachDevtools()`. Not part of the root entry point; import it from
+ * `@acmedinotech/form-state/devtools` so production bundles can leave it out.
+ */
+import type { DiffResults } from '../form/core';
+import { computeDiff, jsonClone } from '../form/core';
+import type { ActionStoreImpl } from './core';
+import type { Action } from './types';
+
+export type DevtoolsEntry<State = any> = {
+	/** Sequence number, unique per inspector. */
+	id: number;
+	action: Action;
+	/** `meta` of the `action` event (inner events and changed keys). */
+	meta?: { innerEvents?: string[]; changedKeys?: string[] };
+	diff: DiffResults;
+	stateBefore: State;
+	stateAfter: State;
+	/** `performance.now()` (or `Date.now()`) when dispatch started. */
+	startedAt: number;
+	/** Time spent in middleware, reducers and listeners, in ms. */
+	duration: number;
+};
+
+export type DevtoolsOptions = {
+	/** Max number of entries kept. Defaults to 200. */
+	maxEntries?: number;
+	/**
+	 * Connects to the Redux DevTools browser extension if it's installed. Pass an
+	 * object to name the instance.
+	 */
+	reduxDevtools?: boolean | { name?: string };
+};
+
+export type DevtoolsInspector<State = any> = {
+	getEntries(): DevtoolsEntry<State>[];
+	/** State when the inspector was attached (or last cleared). */
+	getInitialState(): State;
+	/** Subscribes to new entries. */
+	subscribe(fn: (entry: DevtoolsEntry<State>) => void): () => void;
+	/**
+	 * Restores the state after entry `index` (`-1` for the initial state). Emits
+	 * `state-reset`.
+	 */
+	jumpTo(index: number): void;
+	/**
+	 * Restores the state before entry `from` and dispatches the recorded actions
+	 * from `from` up to (excluding) `to` again. Replayed actions aren't recorded.
+	 */
+	replay(from?: number, to?: number): void;
+	clear(): void;
+	/** Stops recording and disconnects from the extension. */
+	detach(): void;
+};
+
+type ReduxDevtoolsConnection = {
+	init(state: any): void;
+	send(action: any, state: any): void;
+	subscribe(fn: (message: any) => void): (() => void) | void;
+	unsubscribe?(): void;
+};
+
+const now = () =>
+	typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+const connectReduxDevtools = (name?: string) => {
+	const ext =
+		typeof window !== 'undefined'
+			? (window as any).__REDUX_DEVTOOLS_EXTENSION__
+			: undefined;
+	return ext?.connect?.({ name }) as ReduxDevtoolsConnection | undefined;
+};
+
+/**
+ * Records every action dispatched to `store` along with its meta, state diff and
+ * timing.
+ */
+export const attachDevtools = <State = any>(
+	store: ActionStoreImpl<State>,
+	{ maxEntries = 200, reduxDevtools = false }: DevtoolsOptions = {}
+): DevtoolsInspector<State> => {
+	let seq = 0;
+	let entries: DevtoolsEntry<State>[] = [];
+	let initialState = jsonClone<State>(store.getState());
+	const subscribers = new Set<(entry: DevtoolsEntry<State>) => void>();
+	/** Meta captured for each dispatch in progress (dispatches can nest). */
+	const frames: { meta?: DevtoolsEntry['meta'] }[] = [];
+	/** Set while jumping or replaying so those changes aren't recorded. */
+	let travelling = false;
+
+	const connection = reduxDevtools
+		? connectReduxDevtools(
+				typeof reduxDevtools === 'object'
+					? reduxDevtools.name
+					: undefined
+		  )
+		: undefined;
+	connection?.init(initialState);
+
+	const unbindAction = store.listenFor('action', (evt, { meta }) => {
+		const frame = frames[frames.length - 1];
+		if (frame && !frame.meta) {
+			frame.meta = meta;
+		}
+	});
+
+	const removeMiddleware = store.use((action, { getState, next }) => {
+		if (travelling) {
+			next();
+			return;
+		}
+
+		const stateBefore = jsonClone<State>(getState());
+		const startedAt = now();
+		const frame: { meta?: DevtoolsEntry['meta'] } = {};
+		frames.push(frame);
+		try {
+			next();
+		} finally {
+			frames.pop();
+		}
+		const stateAfter = jsonClone<State>(getState());
+		const entry: DevtoolsEntry<State> = {
+			id: ++seq,
+			action,
+			meta: frame.meta,
+			diff: computeDiff(stateBefore, stateAfter),
+			stateBefore,
+			stateAfter,
+			startedAt,
+			duration: now() - startedAt,
+		};
+
+		entries.push(entry);
+		if (entries.length > maxEntries) {
+			entries.shift();
+		}
+		connection?.send(action, stateAfter);
+		subscribers.forEach((fn) => fn(entry));
+	});
+
+	const restore = (state: State) => {
+		travelling = true;
+		try {
+			store.resetState(jsonClone(state));
+		} finally {
+			travelling = false;
+		}
+	};
+
+	const unsubscribeConnection = connection?.subscribe((message) => {
+		if (
+			message?.type === 'DISPATCH' &&
+			(message.payload?.type === 'JUMP_TO_STATE' ||
+				message.payload?.type === 'JUMP_TO_ACTION')
+		) {
+			restore(JSON.parse(message.state));
+		}
+	});
+
+	return {
+		getEntries: () => [...entries],
+		getInitialState: () => initialState,
+		subscribe: (fn) => {
+			subscribers.add(fn);
+			return () => {
+				subscribers.delete(fn);
+			};
+		},
+		jumpTo: (index) => {
+			if (index < 0) {
+				restore(entries[0]?.stateBefore ?? initialState);
+			} else if (entries[index]) {
+				restore(entries[index].stateAfter);
+			}
+		},
+		replay: (from = 0, to = entries.length) => {
+			const replayed = entries.slice(from, to);
+			if (replayed.length === 0) {
+				return;
+			}
+			restore(replayed[0].stateBefore);
+			travelling = true;
+			try {
+				replayed.forEach((entry) => store.dispatch(entry.action));
+			} finally {
+				travelling = false;
+			}
+		},
+		clear: () => {
+			entries = [];
+			initialState = jsonClone<State>(store.getState());
+		},
+		detach: () => {
+			removeMiddleware();
+			unbindAction();
+			subscribers.clear();
+			if (typeof unsubscribeConnection === 'function') {
+				unsubscribeConnection();
+			} else {
+				connection?.unsubscribe?.();
+			}
+		},
+	};
+};
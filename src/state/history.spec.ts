@@ -0,0 +1,68 @@
+import type { StandardOpsActionMeta } from './core';
+import { ActionStoreImpl, standardOpsReducer } from './core';
+
+describe('action-store/history', () => {
+	const makeStore = () =>
+		new ActionStoreImpl<any, StandardOpsActionMeta>(
+			{ a: 1, b: 2 },
+			{ reducers: [standardOpsReducer], history: { limit: 2 } }
+		);
+
+	it('undoes and redoes dispatches', () => {
+		const store = makeStore();
+		const events: string[] = [];
+		store.listenFor('action:history', (evt, { action }) =>
+			events.push(action?.type as string)
+		);
+
+		expect(store.canUndo).toEqual(false);
+		store.dispatchStdOps({ set: { a: 10 } });
+		store.dispatchStdOps({ set: { b: 20 } });
+		expect(store.undo()).toEqual({ a: 10, b: 2 });
+		expect(store.undo()).toEqual({ a: 1, b: 2 });
+		expect(store.canUndo).toEqual(false);
+		expect(store.canRedo).toEqual(true);
+		expect(store.redo()).toEqual({ a: 10, b: 2 });
+		expect(events).toEqual([
+			'history:undo',
+			'history:undo',
+			'history:redo',
+		]);
+
+		store.dispatchStdOps({ set: { a: 0 } });
+		expect(store.canRedo).toEqual(false);
+	});
+
+	it('resets to the given state and clears history', () => {
+		const store = makeStore();
+		const reset = jest.fn();
+		store.listenFor('state-reset', reset);
+		store.dispatchStdOps({ set: { a: 10 } });
+
+		expect(store.resetState({ a: 5 })).toEqual({ a: 5 });
+		expect(store.getState()).toEqual({ a: 5 });
+		expect(store.canUndo).toEqual(false);
+		expect(reset).toHaveBeenCalledWith('state-reset', { state: { a: 5 } });
+	});
+
+	it('bounds the undo stack', () => {
+		const store = makeStore();
+		store.dispatchStdOps({ set: { a: 2 } });
+		store.dispatchStdOps({ set: { a: 3 } });
+		store.dispatchStdOps({ set: { a: 4 } });
+		store.undo();
+		store.undo();
+		expect(store.canUndo).toEqual(false);
+		expect(store.getState().a).toEqual(2);
+	});
+
+	it('groups dispatches in a transaction', () => {
+		const store = makeStore();
+		store.transaction(() => {
+			store.dispatchStdOps({ set: { a: 10 } });
+			store.dispatchStdOps({ set: { b: 20 } });
+		});
+		expect(store.undo()).toEqual({ a: 1, b: 2 });
+		expect(store.canUndo).toEqual(false);
+	});
+});
@@ -1,2 +1,5 @@
 export * from './types';
 export * from './core';
+export * from './middleware';
+export * from './selectors';
+export * from './sync';
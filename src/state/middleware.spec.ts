@@ -0,0 +1,61 @@
+import { ActionStoreImpl, standardOpsReducer } from './core';
+import { makeAllowlistMiddleware, makeLoggerMiddleware } from './middleware';
+
+describe('action-store/middleware', () => {
+	it('runs middleware in order before reducers', () => {
+		const calls: string[] = [];
+		const store = new ActionStoreImpl<any>(
+			{ a: 1 },
+			{ reducers: [standardOpsReducer] }
+		);
+		store.use((action, { next }) => {
+			calls.push('first');
+			next({ ...action, set: { a: 2 } });
+		});
+		store.use((action, { next, getState }) => {
+			calls.push(`second:${getState().a}`);
+			next();
+			calls.push(`after:${getState().a}`);
+		});
+
+		store.dispatchStdOps({ set: { a: 5 } });
+		expect(calls).toEqual(['first', 'second:1', 'after:2']);
+		expect(store.getState()).toEqual({ a: 2 });
+	});
+
+	it('swallows and follows up actions', () => {
+		const rejected: string[] = [];
+		const logs: any[] = [];
+		const store = new ActionStoreImpl<any>(
+			{ a: 1 },
+			{
+				reducers: [standardOpsReducer],
+				middleware: [
+					makeAllowlistMiddleware(['std-ops', 'bump'], (action) =>
+						rejected.push(action.type)
+					),
+					makeLoggerMiddleware({ log: (...args) => logs.push(args) }),
+				],
+			}
+		);
+		const remove = store.use((action, { next, dispatch }) => {
+			if (action.type === 'bump') {
+				dispatch({ type: 'std-ops', set: { a: 2 } });
+			} else {
+				next();
+			}
+		});
+
+		store.dispatch({ type: 'unknown' });
+		store.dispatch({ type: 'bump' });
+		expect(rejected).toEqual(['unknown']);
+		expect(store.getState()).toEqual({ a: 2 });
+		expect(logs.map(([msg]) => msg)).toEqual([
+			'[action-store] std-ops',
+			'[action-store] bump',
+		]);
+
+		remove();
+		expect(store.middleware.length).toEqual(2);
+	});
+});
@@ -0,0 +1,36 @@
+import type { StoreMiddleware } from './types';
+
+/**
+ * Logs each action along with the state before and after it was reduced.
+ */
+export const makeLoggerMiddleware =
+	(
+		logger: Pick<Console, 'log'> = console,
+		label = 'action-store'
+	): StoreMiddleware =>
+	(action, { getState, next }) => {
+		const prev = getState();
+		next();
+		logger.log(`[${label}] ${action.type}`, {
+			action,
+			prev,
+			next: getState(),
+		});
+	};
+
+/**
+ * Swallows any action whose type isn't in `types`. `onReject` is called with
+ * each swallowed action.
+ */
+export const makeAllowlistMiddleware =
+	(
+		types: string[],
+		onReject?: (action: { type: string }) => void
+	): StoreMiddleware =>
+	(action, { next }) => {
+		if (types.includes(action.type)) {
+			next();
+		} else {
+			onReject?.(action);
+		}
+	};
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { shallowEqual } from '../utils';
+import { ActionStoreImpl, standardOpsReducer, useActionStore } from './core';
+import { makeSelector, useActionStoreSelector } from './selectors';
+
+describe('action-store/selectors', () => {
+	const makeStore = () =>
+		new ActionStoreImpl<any>(
+			{ a: 1, b: { x: 1 }, c: [1, 2] },
+			{ reducers: [standardOpsReducer] }
+		);
+
+	it('re-renders only when the selected slice changes', () => {
+		const store = makeStore();
+		let renders = 0;
+		const { result } = renderHook(() => {
+			renders++;
+			return useActionStoreSelector(store, (s) => s.a);
+		});
+
+		act(() => store.dispatchStdOps({ path: 'b', set: { x: 2 } }));
+		expect(renders).toEqual(1);
+		act(() => store.dispatchStdOps({ set: { a: 2 } }));
+		expect(renders).toEqual(2);
+		expect(result.current).toEqual(2);
+	});
+
+	it('supports equality functions and memoized selectors', () => {
+		const store = makeStore();
+		let computed = 0;
+		const selectSum = makeSelector([(s: any) => s.c], (c: number[]) => {
+			computed++;
+			return c.reduce((a, b) => a + b, 0);
+		});
+		let renders = 0;
+		renderHook(() => {
+			renders++;
+			return useActionStoreSelector(
+				store,
+				(s) => ({ a: s.a, sum: selectSum(s) }),
+				shallowEqual
+			);
+		});
+
+		act(() => store.dispatchStdOps({ path: 'b', set: { x: 2 } }));
+		expect(renders).toEqual(1);
+		expect(computed).toEqual(1);
+		act(() => store.dispatchStdOps({ set: { c: [5] } }));
+		expect(renders).toEqual(2);
+		expect(computed).toEqual(2);
+	});
+
+	it('useActionStore listens for state-reset by default', () => {
+		const store = makeStore();
+		const { result } = renderHook(() => useActionStore(store));
+		act(() => {
+			store.updateState({ a: 10 });
+		});
+		expect(result.current.a).toEqual(10);
+	});
+});
@@ -0,0 +1,77 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import { deepEqual } from '../utils';
+import type { ActionStore } from './types';
+
+export type Selector<State = any, Selected = any> = (state: State) => Selected;
+
+/**
+ * Creates a memoized selector: `combiner` only runs when the output of one of
+ * `inputs` changes, so derived objects and arrays keep their identity between
+ * unrelated state changes. Since `dispatch` clones state, inputs are compared with
+ * `deepEqual` by default.
+ *
+ * ```ts
+ * const selectTotal = makeSelector(
+ * 	[(s: State) => s.items, (s: State) => s.taxRate],
+ * 	(items, taxRate) => sum(items) * (1 + taxRate)
+ * );
+ * ```
+ */
+export const makeSelector = <State, Inputs extends any[], Selected>(
+	inputs: { [K in keyof Inputs]: Selector<State, Inputs[K]> },
+	combiner: (...inputs: Inputs) => Selected,
+	inputEqualityFn: (a: any, b: any) => boolean = deepEqual
+): Selector<State, Selected> => {
+	let last: { args: Inputs; selected: Selected } | undefined;
+	return (state) => {
+		const args = inputs.map((input) => input(state)) as Inputs;
+		if (
+			last &&
+			args.every((arg, i) => inputEqualityFn(arg, last?.args[i]))
+		) {
+			return last.selected;
+		}
+		last = { args, selected: combiner(...args) };
+		return last.selected;
+	};
+};
+
+/**
+ * Subscribes to the slice of store state returned by `selector`. The component
+ * only re-renders when the slice changes according to `equalityFn` (defaults to
+ * `Object.is`; see `shallowEqual` and `deepEqual`).
+ */
+export function useActionStoreSelector<
+	State = any,
+	Selected = any,
+	ActionMeta = any,
+	ActionType = string
+>(
+	store: ActionStore<State, ActionMeta, ActionType>,
+	selector: Selector<State, Selected>,
+	equalityFn: (a: Selected, b: Selected) => boolean = Object.is
+): Selected {
+	const last = useRef<{ selected: Selected } | undefined>();
+
+	const subscribe = useCallback(
+		(onChange: () => void) => {
+			const unbinds = [
+				store.listenFor('state-reset', onChange),
+				store.listenFor('action', onChange),
+			];
+			return () => unbinds.forEach((f) => f());
+		},
+		[store]
+	);
+
+	const getSnapshot = () => {
+		const selected = selector(store.getState());
+		if (last.current && equalityFn(last.current.selected, selected)) {
+			return last.current.selected;
+		}
+		last.current = { selected };
+		return selected;
+	};
+
+	return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
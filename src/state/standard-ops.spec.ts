@@ -1,5 +1,9 @@
 import type { StandardOpsActionMeta } from './core';
-import { ActionStoreImpl, standardOpsReducer } from './core';
+import {
+	ActionStoreImpl,
+	makeStandardOpsReducer,
+	standardOpsReducer,
+} from './core';
 
 describe('action-store/standard-ops', () => {
 	const store = new ActionStoreImpl<any, StandardOpsActionMeta>(
@@ -110,3 +114,110 @@ describe('action-store/standard-ops', () => {
 		]);
 	});
 });
+
+describe('action-store/standard-ops cascadePath', () => {
+	const store = new ActionStoreImpl<any, StandardOpsActionMeta>(
+		{ a: { b: { c: {} } }, items: [{ price: 1 }] },
+		{ reducers: [makeStandardOpsReducer({ cascadePath: true })] }
+	);
+
+	it('cascades change events on path segments', () => {
+		const heard: string[] = [];
+		store.listenFor('action:std-ops:change:a', () => heard.push('a'));
+		store.listenFor('action:std-ops:change:a/*', () => heard.push('a/*'));
+		store.dispatchStdOps({ path: 'a/b/c', set: { d: 1 } });
+		expect(heard).toEqual(['a/*', 'a']);
+	});
+
+	it('emits wildcards for array segments', () => {
+		let innerEvents: string[] = [];
+		store.listenFor('action:std-ops:change:items/*', (evt, { meta }) => {
+			innerEvents = meta?.innerEvents ?? [];
+		});
+		store.dispatchStdOps({ path: 'items[0]', set: { price: 2 } });
+		expect(innerEvents).toEqual([
+			'std-ops:change:items[0]:price',
+			'std-ops:change:items[0]',
+			'std-ops:change:items/*',
+			'std-ops:change:items',
+			'std-ops:change',
+		]);
+	});
+
+	it('can be disabled per action', () => {
+		const heard: string[] = [];
+		store.listenFor('action:std-ops:change:a/b', () => heard.push('a/b'));
+		store.dispatchStdOps({
+			path: 'a/b/c',
+			set: { d: 2 },
+			cascadePath: false,
+		});
+		expect(heard).toEqual([]);
+	});
+});
+
+describe('action-store/standard-ops arrays', () => {
+	const store = new ActionStoreImpl<any, StandardOpsActionMeta>(
+		{ order: { items: [{ sku: 'a' }, { sku: 'b' }] } },
+		{ reducers: [standardOpsReducer] }
+	);
+
+	let __innerEvents: string[] = [];
+	store.listenFor('action:std-ops:change', (evt, { meta }) => {
+		__innerEvents = meta?.innerEvents ?? [];
+	});
+
+	it('applies `push` and reports indices', () => {
+		store.dispatchStdOps({ path: 'order/items', push: [{ sku: 'c' }] });
+		expect(store.getState().order.items.length).toEqual(3);
+		expect(__innerEvents.slice(0, 2)).toEqual([
+			'std-ops:change:order/items:2',
+			'std-ops:change:order/items',
+		]);
+	});
+
+	it('applies `move` and `insert`', () => {
+		store.dispatchStdOps({
+			path: 'order/items',
+			insert: { index: 0, items: [{ sku: 'z' }] },
+			move: { from: 3, to: 1 },
+		});
+		expect(store.getState().order.items.map((i: any) => i.sku)).toEqual([
+			'z',
+			'c',
+			'a',
+			'b',
+		]);
+	});
+
+	it('applies `splice` and `removeWhere`', () => {
+		store.dispatchStdOps({
+			path: 'order/items',
+			removeWhere: (item) => item.sku === 'z',
+			splice: { start: 1, deleteCount: 1, items: [{ sku: 'y' }] },
+		});
+		expect(store.getState().order.items.map((i: any) => i.sku)).toEqual([
+			'c',
+			'y',
+			'b',
+		]);
+		expect(__innerEvents.slice(0, 4)).toEqual([
+			'std-ops:change:order/items:0',
+			'std-ops:change:order/items:1',
+			'std-ops:change:order/items:2',
+			'std-ops:change:order/items:3',
+		]);
+	});
+
+	it('applies keyed ops to index-addressed paths', () => {
+		store.dispatchStdOps({ path: 'order/items[1]', set: { qty: 2 } });
+		expect(store.getState().order.items[1]).toEqual({ sku: 'y', qty: 2 });
+		expect(store.getState().order.items.length).toEqual(3);
+		expect(__innerEvents[0]).toEqual('std-ops:change:order/items[1]:qty');
+	});
+
+	it('creates missing arrays', () => {
+		store.dispatchStdOps({ path: 'tags', push: ['new'] });
+		expect(store.getState().tags).toEqual(['new']);
+	});
+});
@@ -0,0 +1,99 @@
+import { ActionStoreImpl, standardOpsReducer } from './core';
+import type { SyncMessage } from './sync';
+import { makeLocalTransportHub, syncActionStore } from './sync';
+
+describe('action-store/sync', () => {
+	const makeStore = (id: string) => {
+		const store = new ActionStoreImpl<any>(
+			{ a: 1, list: [] },
+			{ reducers: [standardOpsReducer], history: true }
+		);
+		store.id = id;
+		return store;
+	};
+
+	it('applies remote actions without re-broadcasting', () => {
+		const hub = makeLocalTransportHub();
+		const storeA = makeStore('a');
+		const storeB = makeStore('b');
+		syncActionStore(storeA, { transport: hub.connect() });
+		syncActionStore(storeB, { transport: hub.connect() });
+		const sniffed: SyncMessage[] = [];
+		hub.connect().addEventListener('message', ({ data }) =>
+			sniffed.push(data)
+		);
+
+		storeA.dispatchStdOps({ set: { a: 2 } });
+		expect(storeB.getState().a).toEqual(2);
+		storeB.updateState({ a: 3 });
+		expect(storeA.getState().a).toEqual(3);
+		storeA.dispatchStdOps({ customOp: () => ({ a: 4 }) });
+		expect(storeB.getState().a).toEqual(4);
+		expect(
+			sniffed.map((m) => `${m.origin.split('/')[0]}:${m.kind}`)
+		).toEqual(['a:action', 'b:state', 'a:state']);
+	});
+
+	it('uses a unique origin per synced store', () => {
+		const hub = makeLocalTransportHub();
+		const storeA = makeStore('same');
+		const storeB = makeStore('same');
+		syncActionStore(storeA, { transport: hub.connect() });
+		syncActionStore(storeB, { transport: hub.connect() });
+
+		storeA.dispatchStdOps({ set: { a: 2 } });
+		expect(storeB.getState().a).toEqual(2);
+	});
+
+	it('keeps undo history when applying remote changes', () => {
+		const hub = makeLocalTransportHub();
+		const storeA = makeStore('a');
+		const storeB = makeStore('b');
+		syncActionStore(storeA, { transport: hub.connect() });
+		syncActionStore(storeB, { transport: hub.connect() });
+
+		storeA.dispatchStdOps({ set: { a: 2 } });
+		storeB.updateState({ a: 3 });
+		expect(storeA.getState().a).toEqual(3);
+		expect(storeA.canUndo).toEqual(true);
+		storeB.dispatchStdOps({ set: { a: 4 } });
+		expect(storeA.canUndo).toEqual(true);
+	});
+
+	it('converges on concurrent edits', () => {
+		const storeA = makeStore('a');
+		const storeB = makeStore('b');
+		// hold messages to simulate concurrent dispatches
+		const queued: [(evt: any) => void, any][] = [];
+		const makeTransport = (peer: () => ((evt: any) => void)[]) => {
+			const listeners: ((evt: any) => void)[] = [];
+			return {
+				listeners,
+				postMessage: (data: any) =>
+					peer().forEach((fn) => queued.push([fn, { data }])),
+				addEventListener: (type: string, fn: any) => listeners.push(fn),
+				removeEventListener: () => {},
+			};
+		};
+		const txA: any = makeTransport(() => txB.listeners);
+		const txB: any = makeTransport(() => txA.listeners);
+		syncActionStore(storeA, { transport: txA });
+		syncActionStore(storeB, { transport: txB });
+		const middlewareA = jest.fn((action, { next }) => next());
+		const middlewareB = jest.fn((action, { next }) => next());
+		storeA.use(middlewareA);
+		storeB.use(middlewareB);
+
+		storeA.dispatchStdOps({ path: 'list', push: ['from-a'] });
+		storeB.dispatchStdOps({ path: 'list', push: ['from-b'] });
+		queued.forEach(([fn, evt]) => fn(evt));
+
+		expect(storeA.getState().list).toEqual(['from-a', 'from-b']);
+		expect(storeB.getState().list).toEqual(['from-a', 'from-b']);
+		// remote actions (in order for A, replayed for B) skip middleware alike
+		expect(middlewareA).toHaveBeenCalledTimes(1);
+		expect(middlewareB).toHaveBeenCalledTimes(1);
+		expect(storeA.canUndo).toEqual(true);
+		expect(storeB.canUndo).toEqual(true);
+	});
+});
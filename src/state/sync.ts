@@ -0,0 +1,219 @@
+import { sortString } from '../utils';
+import { jsonClone } from '../form';
+import type { ActionStoreImpl } from './core';
+import type { Action } from './types';
+
+/**
+ * The subset of `BroadcastChannel` used for syncing.
+ */
+export type SyncTransport = {
+	postMessage(message: any): void;
+	addEventListener(
+		type: 'message',
+		listener: (evt: { data: any }) => void
+	): void;
+	removeEventListener(
+		type: 'message',
+		listener: (evt: { data: any }) => void
+	): void;
+	close?(): void;
+};
+
+export type SyncMessage =
+	| { kind: 'action'; clock: number; origin: string; action: Action }
+	| { kind: 'state'; clock: number; origin: string; state: any };
+
+export type SyncOptions = {
+	/** Channel name of the default `BroadcastChannel` transport. */
+	channel?: string;
+	/** Defaults to `new BroadcastChannel(channel)`. */
+	transport?: SyncTransport;
+	/**
+	 * Number of recent operations kept for reordering concurrent edits. Defaults
+	 * to 100.
+	 */
+	logLimit?: number;
+};
+
+/**
+ * Returns connected in-process transports that behave like `BroadcastChannel`
+ * instances of the same channel (messages aren't delivered to the sender).
+ */
+export const makeLocalTransportHub = () => {
+	const transports: Set<{
+		listeners: Set<(evt: { data: any }) => void>;
+	}> = new Set();
+
+	return {
+		connect: (): SyncTransport => {
+			const self = { listeners: new Set<(evt: { data: any }) => void>() };
+			transports.add(self);
+			return {
+				postMessage: (message) => {
+					const data = jsonClone(message);
+					for (const transport of transports) {
+						if (transport !== self) {
+							transport.listeners.forEach((fn) => fn({ data }));
+						}
+					}
+				},
+				addEventListener: (type, listener) =>
+					self.listeners.add(listener),
+				removeEventListener: (type, listener) =>
+					self.listeners.delete(listener),
+				close: () => {
+					transports.delete(self);
+				},
+			};
+		},
+	};
+};
+
+const isSerializable = (value: any): boolean => {
+	if (typeof value === 'function') {
+		return false;
+	}
+	if (value && typeof value === 'object') {
+		return Object.values(value).every(isSerializable);
+	}
+	return true;
+};
+
+/**
+ * Unique per synced store: `store.id` is a timestamp, shared by stores created in
+ * the same millisecond.
+ */
+const makeOrigin = (store: ActionStoreImpl) =>
+	`${store.id}/${
+		typeof crypto !== 'undefined' && crypto.randomUUID
+			? crypto.randomUUID()
+			: Math.random().toString(36).slice(2)
+	}`;
+
+/**
+ * Keeps `store` in sync with other stores on the same transport (e.g. other tabs).
+ *
+ * - dispatched actions are broadcast and applied remotely through the remote
+ *   store's reducers (middleware only runs on the dispatching store); remote
+ *   operations are never re-broadcast
+ * - `resetState`, `updateState` and undo/redo broadcast the resulting state
+ * - remote operations are applied with `replaceState()`, emitting `state-reset`
+ *   and keeping the store's undo history
+ * - operations are ordered by a Lamport clock, with ties broken by a random
+ *   origin id per synced store (prefixed with the store's `id`). An
+ *   operation arriving out of order is inserted into the recent operation log and
+ *   the log is replayed, so all stores converge on the same state
+ *
+ * Actions with non-serializable values (e.g. `customOp`) are broadcast as the
+ * resulting state instead.
+ *
+ * @return Function to stop syncing.
+ */
+export const syncActionStore = (
+	store: ActionStoreImpl,
+	{ channel = 'action-store', transport, logLimit = 100 }: SyncOptions = {}
+) => {
+	const tx =
+		transport ??
+		(new BroadcastChannel(channel) as unknown as SyncTransport);
+	const origin = makeOrigin(store);
+	let clock = 0;
+	let base = jsonClone(store.getState());
+	const log: SyncMessage[] = [];
+	/** Set while applying remote or replayed changes. */
+	let applying = false;
+
+	const compare = (a: SyncMessage, b: SyncMessage) =>
+		a.clock - b.clock || sortString(a.origin, b.origin);
+
+	const applyEntry = (state: any, entry: SyncMessage) => {
+		if (entry.kind === 'state') {
+			return jsonClone(entry.state);
+		}
+		const nstate = store.applyReducers(entry.action, jsonClone(state));
+		delete nstate.__innerEvents;
+		delete nstate.__changedKeys;
+		return nstate;
+	};
+
+	const pushEntry = (entry: SyncMessage, index = log.length) => {
+		log.splice(index, 0, entry);
+		while (log.length > logLimit) {
+			base = applyEntry(base, log.shift() as SyncMessage);
+		}
+	};
+
+	const withApplying = (fn: () => void) => {
+		applying = true;
+		try {
+			fn();
+		} finally {
+			applying = false;
+		}
+	};
+
+	const broadcast = (entry: SyncMessage) => {
+		pushEntry(entry);
+		tx.postMessage(entry);
+	};
+
+	const removeMiddleware = store.use((action, { next }) => {
+		next();
+		if (!applying) {
+			broadcast(
+				isSerializable(action)
+					? { kind: 'action', clock: ++clock, origin, action }
+					: {
+							kind: 'state',
+							clock: ++clock,
+							origin,
+							state: store.getState(),
+					  }
+			);
+		}
+	});
+
+	const broadcastState = () => {
+		if (!applying) {
+			broadcast({
+				kind: 'state',
+				clock: ++clock,
+				origin,
+				state: store.getState(),
+			});
+		}
+	};
+	const unbinds = [
+		store.listenFor('state-reset', broadcastState),
+		store.listenFor('action:history', broadcastState),
+	];
+
+	const onMessage = ({ data }: { data: SyncMessage }) => {
+		if (!data || data.origin === origin) {
+			return;
+		}
+		clock = Math.max(clock, data.clock);
+
+		let index = log.length;
+		while (index > 0 && compare(log[index - 1], data) > 0) {
+			index--;
+		}
+		const inOrder = index === log.length;
+		pushEntry(data, index);
+
+		const state = inOrder
+			? applyEntry(store.getState(), data)
+			: log.reduce(applyEntry, jsonClone(base));
+		withApplying(() => store.replaceState(state));
+	};
+	tx.addEventListener('message', onMessage);
+
+	return () => {
+		removeMiddleware();
+		unbinds.forEach((f) => f());
+		tx.removeEventListener('message', onMessage);
+		if (!transport) {
+			tx.close?.();
+		}
+	};
+};
@@ -0,0 +1,94 @@
+import { makeEventBus } from '../utils';
+import { ActionStoreImpl, standardOpsReducer } from './core';
+import type { StateReducer } from './types';
+
+type CounterState = { count: number };
+type CounterActions = { type: 'add'; amount: number } | { type: 'reset' };
+
+describe('action-store/typed events', () => {
+	it('narrows discriminated union actions in reducers and listeners', () => {
+		const counterReducer: StateReducer<CounterState, CounterActions> = (
+			action,
+			state
+		) => {
+			if (action.type === 'add') {
+				return { ...state, count: state.count + action.amount };
+			} else if (action.type === 'reset') {
+				return { ...state, count: 0 };
+			}
+		};
+		const store = new ActionStoreImpl<CounterState, CounterActions>(
+			{ count: 0 },
+			{ reducers: [counterReducer] }
+		);
+
+		const amounts: number[] = [];
+		store.listenFor('action:add', (event, { action }) => {
+			const amount: number | undefined = action?.amount;
+			amounts.push(amount as number);
+		});
+		store.dispatch({ type: 'add', amount: 2 });
+		store.dispatch({ type: 'reset' });
+		store.dispatch({ type: 'add', amount: 3 });
+
+		// only type-checked
+		const invalid = () => {
+			// @ts-expect-error unknown action type
+			store.dispatch({ type: 'subtract', amount: 1 });
+			// @ts-expect-error missing meta
+			store.dispatch({ type: 'add' });
+			// @ts-expect-error unknown event
+			store.listenFor('change', () => {});
+		};
+
+		expect(amounts).toEqual([2, 3]);
+		expect(store.getState().count).toEqual(3);
+	});
+
+	it('types std-ops event payloads', () => {
+		const store = new ActionStoreImpl<{ a: { b?: number } }>(
+			{ a: {} },
+			{ reducers: [standardOpsReducer] }
+		);
+		const paths: (string | undefined)[] = [];
+		store.listenFor('action:std-ops:change:a:b', (event, { action }) => {
+			const evt: 'action:std-ops:change:a:b' = event;
+			paths.push(action?.path);
+			// @ts-expect-error `path` is a string
+			const num: number | undefined = action?.path;
+			expect(evt).toEqual(event);
+		});
+		store.dispatchStdOps({ path: 'a', set: { b: 1 } });
+		expect(paths).toEqual(['a']);
+	});
+
+	it('types event bus listeners from an event map', () => {
+		const bus = makeEventBus<{
+			saved: [{ id: number }];
+			[event: `field:${string}`]: [string];
+		}>();
+		const received: any[] = [];
+		bus.addListener('saved', (event, { id }) => received.push([event, id]));
+		bus.addListener('field:name', (event, value) =>
+			received.push([event, value.toUpperCase()])
+		);
+		bus.addListener('*', (event) => received.push(['*', event]));
+
+		bus.emit('saved', { id: 1 });
+		bus.emit('field:name', 'x');
+		// only type-checked
+		const invalid = () => {
+			// @ts-expect-error wrong payload
+			bus.emit('saved', 'x');
+			// @ts-expect-error unknown event
+			bus.emit('deleted');
+		};
+
+		expect(received).toEqual([
+			['saved', 1],
+			['*', 'saved'],
+			['field:name', 'X'],
+			['*', 'field:name'],
+		]);
+	});
+});
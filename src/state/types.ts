@@ -1,10 +1,14 @@
+import type { ListenerOptions } from '../utils';
+
 export type StandardOpsActionTypes =
 	| 'state-reset'
 	| 'std-ops'
 	| `std-ops:change:${string}`;
 
+export type HistoryActionTypes = 'history:undo' | 'history:redo';
+
 export type Action<Meta = any, Type = string> = Meta & {
-	type: Type | StandardOpsActionTypes;
+	type: Type | StandardOpsActionTypes | HistoryActionTypes;
 };
 
 export type StateTransientProps = {
@@ -29,16 +33,72 @@ export type StateReducer<State, ActionMeta, ActionType = string> = (
 	state: State & StateTransientProps
 ) => (State & StateTransientProps) | undefined;
 
-export type ActionEventHandler<
+export type ActionEventPayload<
+	State = any,
+	ActionMeta = any,
+	ActionType = string
+> = {
+	/** Not set for `state-reset`. */
+	action?: Action<ActionMeta, ActionType>;
+	state: State & StateTransientProps;
+	meta?: { innerEvents?: string[]; changedKeys?: string[] };
+};
+
+/**
+ * Listener arguments (after the event name) of `ActionStoreImpl.events`.
+ */
+export type ActionStoreEventMap<
 	State = any,
 	ActionMeta = any,
 	ActionType = string
+> = {
+	'state-reset': [ActionEventPayload<State, ActionMeta, ActionType>];
+	action: [ActionEventPayload<State, ActionMeta, ActionType>];
+	[event: `action:${string}`]: [
+		ActionEventPayload<State, ActionMeta, ActionType>
+	];
+};
+
+export type ActionStoreEvents = keyof ActionStoreEventMap;
+
+/**
+ * The action received by listeners of `Event`:
+ *
+ * - `action:std-ops*` events are always caused by `std-ops` actions
+ * - `action:$type` narrows to actions of `$type` or `$type:*` (events cascade
+ *   on `:`) if any exist; inner events of other types fall back to all actions
+ */
+export type ActionForEvent<
+	Event extends string,
+	ActionMeta = any,
+	ActionType = string
+> = Event extends `action:std-ops${string}`
+	? Action<StandardOpsActionMeta, 'std-ops'>
+	: Event extends `action:${infer Type}`
+	? NarrowAction<Action<ActionMeta, ActionType>, Type>
+	: Action<ActionMeta, ActionType>;
+
+type NarrowAction<A, Type extends string> = Extract<
+	A,
+	{ type: Type | `${Type}:${string}` }
+> extends infer Narrowed
+	? [Narrowed] extends [never]
+		? A
+		: Narrowed
+	: never;
+
+export type ActionEventHandler<
+	State = any,
+	ActionMeta = any,
+	ActionType = string,
+	Event extends ActionStoreEvents = ActionStoreEvents
 > = (
-	event: string,
-	payload: {
-		action?: Action<ActionMeta, ActionType>;
-		state: State & StateTransientProps;
-		meta?: { innerEvents?: string[]; changedKeys?: string[] };
+	event: Event,
+	payload: Omit<
+		ActionEventPayload<State, ActionMeta, ActionType>,
+		'action'
+	> & {
+		action?: ActionForEvent<Event, ActionMeta, ActionType>;
 	}
 ) => void;
 
@@ -48,26 +108,135 @@ export type ActionStore<State = any, ActionMeta = any, ActionType = string> = {
 	getState(): State;
 	dispatch(action: Action<ActionMeta, ActionType>): void;
 	listenFor(
-		event: string,
-		handler: ActionEventHandler<State, ActionMeta, ActionType>
+		pattern: string,
+		handler: ActionEventHandler<State, ActionMeta, ActionType>,
+		options: ListenerOptions & { pattern: true }
+	): () => void;
+	listenFor<Event extends ActionStoreEvents>(
+		event: Event,
+		handler: ActionEventHandler<State, ActionMeta, ActionType, Event>,
+		options?: ListenerOptions
 	): () => void;
 };
 
-export type ActionStoreBuilder<State = any, ActionMeta = any> = ActionStore<
-	State,
-	ActionMeta
-> & {
+export type ActionStoreBuilder<
+	State = any,
+	ActionMeta = any,
+	ActionType = string
+> = ActionStore<State, ActionMeta, ActionType> & {
 	/** Adds a reducer to the top of the list. */
-	prependReducer: (reducer: StateReducer<State, ActionMeta>) => void;
+	prependReducer: (
+		reducer: StateReducer<State, ActionMeta, ActionType>
+	) => void;
 	/** Adds a reducer to the bottom of the list. */
-	appendReducer: (reducer: StateReducer<State, ActionMeta>) => void;
+	appendReducer: (
+		reducer: StateReducer<State, ActionMeta, ActionType>
+	) => void;
+	/**
+	 * Adds a middleware to the end of the chain.
+	 * @returns Function to remove the middleware.
+	 */
+	use: (
+		middleware: StoreMiddleware<State, ActionMeta, ActionType>
+	) => () => void;
+};
+
+/**
+ * Runs before reducers. Call `next()` to pass the action (or a rewritten one) down
+ * the chain; not calling it swallows the action. `dispatch()` starts a new action
+ * from the top of the chain.
+ */
+export type StoreMiddleware<
+	State = any,
+	ActionMeta = any,
+	ActionType = string
+> = (
+	action: Action<ActionMeta, ActionType>,
+	api: {
+		getState: () => State;
+		dispatch: (action: Action<ActionMeta, ActionType>) => void;
+		next: (action?: Action<ActionMeta, ActionType>) => void;
+	}
+) => void;
+
+export type AsyncActionPhase = 'pending' | 'fulfilled' | 'rejected';
+
+/**
+ * Meta of the `$type:pending`, `$type:fulfilled` and `$type:rejected` actions
+ * dispatched by `dispatchAsync()`. Phase actions always emit events, even if no
+ * reducer changes state.
+ */
+export type AsyncActionMeta = {
+	asyncPhase: AsyncActionPhase;
+	/** Shared by all phases of one `dispatchAsync()` call. */
+	requestId: string;
+	/** Set on `fulfilled`. */
+	result?: any;
+	/** Set on `rejected`. */
+	error?: any;
+	/** Set on `rejected` if the effect was cancelled. */
+	aborted?: boolean;
+	/** Std-ops patch applied along with the phase. */
+	patch?: StandardOpsActionMeta;
+};
+
+export type AsyncEffect<State = any, Result = any> = (api: {
+	signal: AbortSignal;
+	getState: () => State;
+	dispatch: (action: Action) => void;
+}) => Promise<Result>;
+
+export type AsyncActionOptions<Result = any> = {
+	/** Aborting this signal cancels the effect and dispatches `rejected`. */
+	signal?: AbortSignal;
+	/** Extra props added to each phase action. */
+	meta?: Record<string, any>;
+	/** Std-ops patches applied on each phase. */
+	patches?: {
+		pending?: StandardOpsActionMeta;
+		fulfilled?:
+			| StandardOpsActionMeta
+			| ((result: Result) => StandardOpsActionMeta);
+		rejected?:
+			| StandardOpsActionMeta
+			| ((error: any) => StandardOpsActionMeta);
+	};
 };
 
-export type ActionStoreEvents = 'state-reset' | 'action' | `action:${string}`;
+export type AsyncActionResult<Result = any> =
+	| { status: 'fulfilled'; value: Result }
+	| { status: 'rejected'; error: any; aborted: boolean };
+
+export type ActionStoreHistoryOptions = {
+	/** Max number of undo entries kept. Defaults to 100. */
+	limit?: number;
+};
+
+/**
+ * Opt-in undo/redo for a store. Undo and redo emit `action:history:undo` and
+ * `action:history:redo` (cascaded to `action:history` and `action`).
+ */
+export type ActionStoreHistory<State = any> = {
+	readonly canUndo: boolean;
+	readonly canRedo: boolean;
+	/** Restores the state before the last change (or transaction). */
+	undo(): State;
+	/** Re-applies the last undone change. */
+	redo(): State;
+	/** Records all state changes made within `fn` as a single undo entry. */
+	transaction(fn: () => void): void;
+	/** Drops all undo/redo entries. */
+	clearHistory(): void;
+};
 
 export type StandardOpsActionMeta = {
 	/** If not defined, `.` (root of state) is used. */
 	path?: string;
+	/**
+	 * Also generate change events for each ancestor of `path` (and parent wildcards
+	 * like `items/*`). Overrides the reducer's default.
+	 */
+	cascadePath?: boolean;
 	/**
 	 * If given, the subgraph pointed to by `path` will be passed into this function and
 	 * updated with the return value. **Only return modified keys, and return deleted keys
@@ -93,4 +262,20 @@ export type StandardOpsActionMeta = {
 	 * E.g. `typeof subgraph[key] === 'number' && subgraph[key] += increment[key]`)
 	 */
 	increment?: Record<string, number>;
+	/*
+	 * Array operations: the value at `path` (e.g. `items`, `order/items[2]/tags`) is
+	 * treated as an array (created if missing). They're applied in the order below,
+	 * and if any is given, keyed operations are ignored. Inner events use the affected
+	 * indices as keys (e.g. `std-ops:change:items:3`).
+	 */
+	/** Removes entries for which the function returns true. */
+	removeWhere?: (item: any, index: number) => boolean;
+	/** Same as `Array.prototype.splice()`. `deleteCount` defaults to 0. */
+	splice?: { start: number; deleteCount?: number; items?: any[] };
+	/** Inserts `items` before `index`. */
+	insert?: { index: number; items: any[] };
+	/** Moves entry at `from` to `to`. */
+	move?: { from: number; to: number };
+	/** Appends entries. */
+	push?: any[];
 };
@@ -0,0 +1,104 @@
+import { ActionStoreImpl, standardOpsReducer } from './state';
+import { globToRegExp, makeEventBus } from './utils';
+
+describe('utils/event-bus', () => {
+	it('matches glob patterns', () => {
+		expect(
+			globToRegExp('action:std-ops:*').test('action:std-ops:change')
+		).toBe(true);
+		expect(
+			globToRegExp('action:std-ops:*').test('action:std-ops:change:a')
+		).toBe(false);
+		expect(globToRegExp('items/*/price').test('items/0/price')).toBe(true);
+		expect(globToRegExp('order/**').test('order/items/0')).toBe(true);
+		expect(globToRegExp('a.b').test('axb')).toBe(false);
+	});
+
+	it('calls pattern, once and prioritized listeners', () => {
+		const bus = makeEventBus();
+		const heard: string[] = [];
+		bus.addListener('*', (evt) => heard.push(`*:${evt}`));
+		bus.addListener('items/0/price', () => heard.push('exact'));
+		bus.addListener('items/*/price', () => heard.push('pattern'), {
+			pattern: true,
+		});
+		bus.addListener('items/0/price', () => heard.push('first'), {
+			priority: 1,
+		});
+		bus.addListener('items/0/price', () => heard.push('once'), {
+			once: true,
+		});
+		bus.addListener('items/*', () => heard.push('literal'));
+
+		bus.emit('items/0/price');
+		bus.emit('items/0/price');
+		expect(heard).toEqual([
+			'first',
+			'exact',
+			'pattern',
+			'once',
+			'*:items/0/price',
+			'first',
+			'exact',
+			'pattern',
+			'*:items/0/price',
+		]);
+	});
+
+	it('stops propagation and isolates errors', () => {
+		const errors: string[] = [];
+		const bus = makeEventBus({ onError: (e, evt) => errors.push(evt) });
+		const heard: string[] = [];
+		bus.addListener('a', () => {
+			throw new Error('boom');
+		});
+		bus.addListener('a', () => heard.push('a'));
+		bus.addListener('b', () => {
+			heard.push('b');
+			bus.emit('a');
+			bus.stopPropagation();
+		});
+		bus.addListener('b', () => heard.push('not called'));
+
+		expect(bus.emit('a')).toBe(true);
+		expect(bus.emit('b')).toBe(false);
+		expect(heard).toEqual(['a', 'b', 'a']);
+		expect(errors).toEqual(['a', 'a']);
+	});
+
+	it('rethrows listener errors after running the remaining listeners', () => {
+		const bus = makeEventBus();
+		const heard: string[] = [];
+		bus.addListener('a', () => {
+			throw new Error('boom');
+		});
+		bus.addListener('a', () => heard.push('a'));
+		expect(() => bus.emit('a')).toThrow('boom');
+		expect(heard).toEqual(['a']);
+
+		bus.addListener('a', () => {
+			throw new Error('bang');
+		});
+		expect(() => bus.emit('a')).toThrow(AggregateError);
+		expect(heard).toEqual(['a', 'a']);
+	});
+
+	it('supports patterns and stopping cascades in action stores', () => {
+		const store = new ActionStoreImpl<any>(
+			{ a: { b: 1 } },
+			{ reducers: [standardOpsReducer] }
+		);
+		const heard: string[] = [];
+		store.listenFor('action:std-ops:change:a:*', (evt) => heard.push(evt), {
+			pattern: true,
+		});
+		store.listenFor('action:std-ops', () => {
+			heard.push('std-ops');
+			store.stopPropagation();
+		});
+		store.listenFor('action', () => heard.push('action'));
+
+		store.dispatchStdOps({ path: 'a', set: { b: 2 } });
+		expect(heard).toEqual(['action:std-ops:change:a:b', 'std-ops']);
+	});
+});
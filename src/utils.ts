@@ -11,40 +11,273 @@ export const sortString = (a?: string, b?: string) =>
 		? 1
 		: 0;
 
-export type EventBus<Events extends string> = {
-	addListener: (
-		name: Events,
-		listener: (...args: any[]) => void
-	) => () => void;
-	emit: (name: Events, ...args: any[]) => void;
+/**
+ * True for `Blob`s (including `File`s). These are treated as opaque values:
+ * compared and copied by reference.
+ */
+export const isBlob = (value: any): value is Blob =>
+	typeof Blob !== 'undefined' && value instanceof Blob;
+
+/**
+ * Compares own enumerable keys of two objects (or elements of two arrays) with
+ * `Object.is`.
+ */
+export const shallowEqual = (a: any, b: any): boolean => {
+	if (Object.is(a, b)) {
+		return true;
+	}
+	if (
+		typeof a !== 'object' ||
+		typeof b !== 'object' ||
+		a === null ||
+		b === null ||
+		a instanceof Array !== b instanceof Array
+	) {
+		return false;
+	}
+	const keysA = Object.keys(a);
+	if (keysA.length !== Object.keys(b).length) {
+		return false;
+	}
+	return keysA.every(
+		(key) =>
+			Object.prototype.hasOwnProperty.call(b, key) &&
+			Object.is(a[key], b[key])
+	);
+};
+
+/**
+ * Recursively compares plain objects and arrays. Blobs are compared by reference.
+ */
+export const deepEqual = (a: any, b: any): boolean => {
+	if (Object.is(a, b)) {
+		return true;
+	}
+	if (
+		isBlob(a) ||
+		isBlob(b) ||
+		typeof a !== 'object' ||
+		typeof b !== 'object' ||
+		a === null ||
+		b === null ||
+		a instanceof Array !== b instanceof Array
+	) {
+		return false;
+	}
+	const keysA = Object.keys(a);
+	if (keysA.length !== Object.keys(b).length) {
+		return false;
+	}
+	return keysA.every(
+		(key) =>
+			Object.prototype.hasOwnProperty.call(b, key) &&
+			deepEqual(a[key], b[key])
+	);
+};
+
+/**
+ * Maps event names to the arguments passed to listeners after the event name.
+ * Template literal keys (e.g. `` [event: `change:${string}`]: [Payload] ``) type
+ * dynamic event names.
+ */
+export type EventMap = Record<string, any[]>;
+
+type ToEventMap<Events extends string | EventMap> = [Events] extends [string]
+	? Record<Events, any[]>
+	: Events;
+
+export type EventName<Events extends string | EventMap> =
+	keyof ToEventMap<Events> & string;
+
+export type EventArgs<
+	Events extends string | EventMap,
+	Name extends EventName<Events>
+> = Extract<ToEventMap<Events>[Name], any[]>;
+
+export type EventListener<
+	Events extends string | EventMap,
+	Name extends EventName<Events>
+> = (event: Name, ...args: EventArgs<Events, Name>) => void;
+
+export type ListenerOptions = {
+	/** Removes the listener after its first call. */
+	once?: boolean;
+	/** Listeners with higher priority run first. Defaults to 0. */
+	priority?: number;
+	/**
+	 * Treats the name as a glob: `*` matches a single segment (delimited by `:` or
+	 * `/`) and `**` matches one or more segments, e.g. `action:std-ops:*` or
+	 * `order/**`. Without this, `*` in a name is literal.
+	 */
+	pattern?: boolean;
+};
+
+export type EventBusOptions = {
+	/**
+	 * Called when a listener throws. Without it, `emit` rethrows after the remaining
+	 * listeners have run (an `AggregateError` if more than one threw).
+	 */
+	onError?: (error: unknown, event: string) => void;
+};
+
+/**
+ * `Events` is either a union of event names (listeners receive `any` arguments) or
+ * an `EventMap`. `*` listeners receive every event after all other listeners.
+ */
+export type EventBus<Events extends string | EventMap = string> = {
+	addListener: {
+		(
+			pattern: string,
+			listener: (event: EventName<Events>, ...args: any[]) => void,
+			options: ListenerOptions & { pattern: true }
+		): () => void;
+		(
+			name: '*',
+			listener: (event: EventName<Events>, ...args: any[]) => void,
+			options?: ListenerOptions
+		): () => void;
+		<Name extends EventName<Events>>(
+			name: Name,
+			listener: EventListener<Events, Name>,
+			options?: ListenerOptions
+		): () => void;
+	};
+	/**
+	 * Calls matching listeners (highest priority first, then in the order added).
+	 * @return `false` if a listener stopped propagation.
+	 */
+	emit: <Name extends EventName<Events>>(
+		name: Name,
+		...args: EventArgs<Events, Name>
+	) => boolean;
+	/**
+	 * Call from a listener to skip the remaining listeners of the current event.
+	 */
+	stopPropagation: () => void;
+};
+
+type RegisteredListener = {
+	fn: Function;
+	once: boolean;
+	priority: number;
+	seq: number;
+	re?: RegExp;
 };
 
-export function makeEventBus<Events extends string>(): EventBus<Events> {
-	const handlerMap: Record<string, Function[]> = {};
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts an event name glob (see `ListenerOptions.pattern`) to a `RegExp`.
+ */
+export const globToRegExp = (pattern: string) =>
+	new RegExp(
+		'^' +
+			pattern
+				.split('**')
+				.map((part) => part.split('*').map(escapeRegExp).join('[^:/]+'))
+				.join('.+') +
+			'$'
+	);
+
+const byPriority = (a: RegisteredListener, b: RegisteredListener) =>
+	b.priority - a.priority || a.seq - b.seq;
+
+export function makeEventBus<Events extends string | EventMap = string>({
+	onError,
+}: EventBusOptions = {}): EventBus<Events> {
+	const handlerMap: Record<string, RegisteredListener[]> = {};
+	let patterns: RegisteredListener[] = [];
+	let seq = 0;
+	/** One entry per emit in progress (emits can nest). */
+	const frames: { stopped: boolean }[] = [];
 
-	const emit = (name: string, ...args: any[]) => {
-		if (!handlerMap[name]) return;
-		handlerMap[name].forEach((fn) => {
-			fn(...args);
-		});
+	const remove = (listener: RegisteredListener) => {
+		if (listener.re) {
+			patterns = patterns.filter((l) => l !== listener);
+			return;
+		}
+		for (const [name, listeners] of Object.entries(handlerMap)) {
+			handlerMap[name] = listeners.filter((l) => l !== listener);
+		}
 	};
 
 	return {
-		addListener: (name: Events, listener: (...args: any[]) => void) => {
-			if (!handlerMap[name]) {
-				handlerMap[name] = [];
+		addListener: (
+			name: string,
+			fn: Function,
+			{
+				once = false,
+				priority = 0,
+				pattern = false,
+			}: ListenerOptions = {}
+		) => {
+			const listener: RegisteredListener = {
+				fn,
+				once,
+				priority,
+				seq: seq++,
+			};
+			if (pattern) {
+				listener.re = globToRegExp(name);
+				patterns.push(listener);
+			} else {
+				if (!handlerMap[name]) {
+					handlerMap[name] = [];
+				}
+				handlerMap[name].push(listener);
 			}
+			return () => remove(listener);
+		},
+		emit: (name: string, ...args: any[]) => {
+			const listeners = [
+				...[
+					...(handlerMap[name] ?? []),
+					...patterns.filter((l) => l.re?.test(name)),
+				].sort(byPriority),
+				...(name === '*'
+					? []
+					: [...(handlerMap['*'] ?? [])].sort(byPriority)),
+			];
 
-			handlerMap[name].push(listener);
-			return () => {
-				handlerMap[name] = handlerMap[name].filter(
-					(fn) => fn !== listener
+			const frame = { stopped: false };
+			const errors: unknown[] = [];
+			frames.push(frame);
+			try {
+				for (const listener of listeners) {
+					if (frame.stopped) {
+						break;
+					}
+					if (listener.once) {
+						remove(listener);
+					}
+					try {
+						listener.fn(name, ...args);
+					} catch (e) {
+						if (onError) {
+							onError(e, name);
+						} else {
+							errors.push(e);
+						}
+					}
+				}
+			} finally {
+				frames.pop();
+			}
+			if (errors.length === 1) {
+				throw errors[0];
+			} else if (errors.length) {
+				throw new AggregateError(
+					errors,
+					`${errors.length} listeners for '${name}' threw`
 				);
-			};
+			}
+			return !frame.stopped;
 		},
-		emit: (name: Events, ...args: any[]) => {
-			emit(name, name, ...args);
-			emit('*', name, ...args);
+		stopPropagation: () => {
+			const frame = frames[frames.length - 1];
+			if (frame) {
+				frame.stopped = true;
+			}
 		},
 	};
 }
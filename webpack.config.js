@@ -2,7 +2,10 @@ const path = require('path');
 const nodeExternals = require('webpack-node-externals');
 
 module.exports = {
-	entry: './src/index.ts',
+	entry: {
+		index: './src/index.ts',
+		devtools: './src/devtools.ts',
+	},
 	resolve: {
 		extensions: ['.tsx', '.ts', '.js'],
 	},
@@ -14,7 +17,7 @@ module.exports = {
 	output: {
 		path: path.resolve(__dirname, 'dist'),
 		libraryTarget: 'commonjs2',
-		filename: 'index.js',
+		filename: '[name].js',
 		chunkFormat: 'module',
 		chunkFilename: '[id].js',
 	},